@@ -1,31 +1,117 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import JazzCanvas from './components/JazzCanvas';
-import { AppState, GameGenre } from './types';
+import MappingEditor from './components/MappingEditor';
+import Setlist from './components/Setlist';
+import MixerPanel from './components/MixerPanel';
+import { AppState, PlayMode, HandAssignment, LeadMode, TempoMode, VisualSettings } from './types';
 import { audioEngine } from './services/audioEngine';
+import { getGenre, listGenres, GenreId } from './genres';
+import { downloadBlob, getTimestamp } from './services/fileUtils';
+import { LandmarkRecording, parseLandmarkRecording } from './services/landmarkRecording';
+import { INPUT_SOURCE_LABELS, InputSourceKind } from './services/input';
+import { MEDIAPIPE_ASSET_PATH, MediaPipeLoadError } from './services/mediaPipeLoader';
+import { listMidiOutputs } from './services/midiOutput';
+import { listMidiInputs } from './services/midiInput';
+import { writeMidiFile } from './services/midiFile';
+import { NoteTake, noteTakeToMidiFile } from './services/noteRecording';
+import { audioBufferToWav, renderStems } from './services/stemRenderer';
+import { KEY_NAMES, KeySelection, SCALE_IDS, SCALES } from './services/scales';
+import { pitchClassOf } from './services/harmony';
+import { loadSavedMappings } from './services/mappingStore';
+import { defaultSession, defaultVisuals, Session } from './services/session';
+import { loadSetlist, saveSetlist } from './services/sessionStore';
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [isRecording, setIsRecording] = useState(false);
-  const [currentGenre, setCurrentGenre] = useState<GameGenre>(GameGenre.JAZZ);
+  const [currentGenre, setCurrentGenre] = useState<GenreId>(() => listGenres()[0].id);
+  const [playMode, setPlayMode] = useState<PlayMode>('continuous');
+  const [tempoMode, setTempoMode] = useState<TempoMode>('fixed');
+  const [leadMode, setLeadMode] = useState<LeadMode>('notes');
+  const [tempo, setTempo] = useState({ bpm: 0, swing: 0, external: false });
+  const [lastTake, setLastTake] = useState<{ take: NoteTake, filename: string } | null>(null);
+  const [stemProgress, setStemProgress] = useState<string | null>(null);
+  // Key and scale per genre, starting in the key each genre is written in
+  const [keys, setKeys] = useState<Record<GenreId, KeySelection>>(() => Object.fromEntries(
+    listGenres().map(genre => [genre.id, { tonic: pitchClassOf(genre.key), scale: 'changes' }])
+  ));
+  const [visuals, setVisuals] = useState<VisualSettings>(() => defaultVisuals(listGenres()[0]));
+  const [setlist, setSetlist] = useState<Session[]>(() => loadSetlist());
+  const [replay, setReplay] = useState<LandmarkRecording | null>(null);
+  const [inputKind, setInputKind] = useState<InputSourceKind>('camera');
+  const [handAssignment, setHandAssignment] = useState<HandAssignment>('handedness');
+  const [error, setError] = useState<unknown>(null);
+  // null until the user asks for MIDI (requesting access prompts in some browsers)
+  const [midiOutputs, setMidiOutputs] = useState<MIDIOutput[] | null>(null);
+  const [midiOutputId, setMidiOutputId] = useState<string | null>(null);
+  const [midiInputs, setMidiInputs] = useState<MIDIInput[]>([]);
+  const [midiInputId, setMidiInputId] = useState<string | null>(null);
   
   // Recording Refs
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
   const recordingMimeTypeRef = useRef<string>(''); 
 
-  const startExperience = async (genre: GameGenre) => {
-    setCurrentGenre(genre);
+  const handleError = useCallback((e: unknown) => {
+    console.error(e);
+    audioEngine.stop();
+    setError(e);
+    setAppState(AppState.ERROR);
+  }, []);
+
+  const startSession = async (session: Session) => {
+    setCurrentGenre(session.genre);
+    setKeys(prev => ({ ...prev, [session.genre]: session.key }));
+    setLeadMode(session.leadMode);
+    setTempoMode(session.tempoMode);
+    setVisuals(session.visuals);
     setAppState(AppState.LOADING);
     try {
-      await audioEngine.loadGenre(genre);
+      audioEngine.setLeadMode(session.leadMode);
+      await audioEngine.loadGenre(session.genre, session);
+      audioEngine.setMappings(session.mappings);
       setAppState(AppState.RUNNING);
     } catch (e) {
-      console.error(e);
-      setAppState(AppState.ERROR);
+      handleError(e);
     }
   };
 
+  // A genre card plays the genre as shipped, with the menu's choices and any saved mappings
+  const startExperience = (genre: GenreId) => {
+    const definition = getGenre(genre);
+    return startSession({
+      ...defaultSession(definition),
+      key: keys[genre],
+      leadMode,
+      tempoMode,
+      mappings: loadSavedMappings(genre) ?? definition.mappings,
+    });
+  };
+
+  const updateSetlist = (sessions: Session[]) => {
+    setSetlist(sessions);
+    saveSetlist(sessions);
+  };
+
+  // Adds what's playing now (tempo as it stands, mappings as edited) to the setlist
+  const handleSaveSession = () => {
+    const name = window.prompt('Session name', `${getGenre(currentGenre).menu.title} ${setlist.length + 1}`);
+    if (name === null) return;
+    updateSetlist([...setlist, {
+      name,
+      genre: currentGenre,
+      key: audioEngine.getKey() ?? keys[currentGenre],
+      transport: { bpm: Math.round(audioEngine.getBpm()), swing: audioEngine.getSwing() },
+      tempoMode,
+      leadMode,
+      patch: audioEngine.getPatch(),
+      reverb: audioEngine.getReverb(),
+      mappings: audioEngine.getMappings(),
+      visuals,
+    }]);
+  };
+
   const handleReturnToMenu = () => {
     stopVideoRecording();
     audioEngine.stop();
@@ -62,6 +148,7 @@ const App: React.FC = () => {
         recorder.ondataavailable = (e) => { if (e.data.size > 0) recordedChunksRef.current.push(e.data); };
         recorder.onstop = saveVideoRecording;
         recorder.start();
+        audioEngine.startNoteRecording();
         mediaRecorderRef.current = recorder;
         setIsRecording(true);
     } catch (e) { console.error(e); }
@@ -74,41 +161,70 @@ const App: React.FC = () => {
       }
   };
 
-  const getTimestamp = (): string => {
-    const now = new Date();
-    const pad = (n: number) => n.toString().padStart(2, '0');
-    const yyyy = now.getFullYear();
-    const mo = pad(now.getMonth() + 1);
-    const dd = pad(now.getDate());
-    const hh = pad(now.getHours());
-    const mm = pad(now.getMinutes());
-    const ss = pad(now.getSeconds());
-    return `${yyyy}-${mo}-${dd}_${hh}-${mm}-${ss}`;
-  };
-
+  // Saves the video and, alongside it, the notes played as a multi-track MIDI file
   const saveVideoRecording = () => {
       const mimeType = recordingMimeTypeRef.current || 'video/webm';
       const extension = mimeType.includes('mp4') ? 'mp4' : 'webm';
       const blob = new Blob(recordedChunksRef.current, { type: mimeType });
-      const url = URL.createObjectURL(blob);
-      const anchor = document.createElement("a");
-      
-      const timestamp = getTimestamp();
-      let filename = `Recording_${timestamp}`;
-      
-      if (currentGenre === GameGenre.JAZZ) {
-          filename = `Jazz_Sax_vs_Trumpet_${timestamp}`;
-      } else if (currentGenre === GameGenre.FUNK) {
-          filename = `Neon_Vortex_Dimension_${timestamp}`;
-      } else if (currentGenre === GameGenre.ELECTRONIC) {
-          filename = `Cyber_Bass_Overload_${timestamp}`;
-      }
-      
-      anchor.download = `${filename}.${extension}`;
-      anchor.href = url;
-      anchor.click();
-      setTimeout(() => URL.revokeObjectURL(url), 100);
+      const filename = `${getGenre(currentGenre).menu.recordingName}_${getTimestamp()}`;
+      downloadBlob(blob, `${filename}.${extension}`);
       recordedChunksRef.current = [];
+
+      const take = audioEngine.stopNoteRecording();
+      if (take && take.notes.length > 0) {
+          downloadBlob(new Blob([writeMidiFile(noteTakeToMidiFile(take))], { type: 'audio/midi' }), `${filename}.mid`);
+          setLastTake({ take, filename });
+      }
+  };
+
+  // Re-render the last take offline into lossless stems and a mix
+  const handleExportStems = async () => {
+      if (!lastTake || stemProgress) return;
+      try {
+          const stems = await renderStems(lastTake.take, {}, (id, index) => setStemProgress(`${index + 1}/6 ${id.toUpperCase()}`));
+          for (const [id, buffer] of Object.entries(stems)) {
+              downloadBlob(new Blob([audioBufferToWav(buffer)], { type: 'audio/wav' }), `${lastTake.filename}_${id}.wav`);
+          }
+      } catch (e) {
+          console.error(e);
+          alert(`Stem export failed: ${(e as Error).message}`);
+      } finally {
+          setStemProgress(null);
+      }
+  };
+
+  const handleLoadReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setReplay(parseLandmarkRecording(await file.text()));
+      setInputKind('replay');
+    } catch (err) {
+      console.error(err);
+      alert(`Could not load landmark recording: ${(err as Error).message}`);
+    }
+  };
+
+  const handleEnableMidi = async () => {
+    try {
+      const [outputs, inputs] = await Promise.all([listMidiOutputs(), listMidiInputs()]);
+      setMidiOutputs(outputs);
+      setMidiInputs(inputs);
+    } catch (err) {
+      console.error(err);
+      setMidiOutputs([]);
+    }
+  };
+
+  const handleSelectMidiInput = (input: MIDIInput | null) => {
+    audioEngine.setMidiInput(input);
+    setMidiInputId(input?.id ?? null);
+  };
+
+  const handleSelectMidiOutput = (output: MIDIOutput | null) => {
+    audioEngine.setMidiOutput(output);
+    setMidiOutputId(output?.id ?? null);
   };
 
   // Keyboard Listener for 'R'
@@ -123,11 +239,20 @@ const App: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [appState, isRecording]);
 
+  // Live tempo readout (the Transport ramps, so poll rather than wait for events)
+  useEffect(() => {
+    if (appState !== AppState.RUNNING) return;
+    const update = () => setTempo({ bpm: Math.round(audioEngine.getBpm()), swing: audioEngine.getSwing(), external: audioEngine.isFollowingClock() });
+    update();
+    const id = window.setInterval(update, 250);
+    return () => window.clearInterval(id);
+  }, [appState]);
+
   return (
     <div className="relative w-screen h-screen bg-black text-white font-sans overflow-hidden">
       
       {(appState === AppState.RUNNING || appState === AppState.LOADING) && (
-        <JazzCanvas appState={appState} setAppState={setAppState} genre={currentGenre} />
+        <JazzCanvas appState={appState} onError={handleError} genre={currentGenre} playMode={playMode} tempoMode={tempoMode} inputKind={inputKind} handAssignment={handAssignment} replay={replay} visuals={visuals} />
       )}
 
       {appState === AppState.RUNNING && (
@@ -139,6 +264,19 @@ const App: React.FC = () => {
                 ← MENU
             </button>
 
+            <button
+                onClick={handleSaveSession}
+                className="absolute top-6 left-40 z-50 px-6 py-2 rounded-full font-bold border border-white/50 text-sm bg-black/20 hover:bg-white hover:text-black transition-all shadow-lg backdrop-blur-md"
+            >
+                + SETLIST
+            </button>
+
+            {/* Gesture-to-parameter mappings (Top Left, under the menu) */}
+            <MappingEditor key={currentGenre} genre={currentGenre} />
+
+            {/* Channel strips (Right, under the record buttons) */}
+            <MixerPanel />
+
             {/* Visual REC Indicator (Top Right Corner) */}
             {isRecording && (
                 <div className="absolute top-2 right-2 z-[60] flex items-center gap-2 pointer-events-none">
@@ -147,6 +285,16 @@ const App: React.FC = () => {
                 </div>
             )}
 
+            {/* Tempo readout (Bottom Right) */}
+            <div className="absolute bottom-6 right-6 z-50 flex items-baseline gap-3 px-4 py-2 rounded-full border border-white/30 bg-black/40 backdrop-blur-md font-mono pointer-events-none">
+                <span className="text-2xl font-bold">{tempo.bpm}</span>
+                <span className="text-xs text-gray-400 tracking-widest">BPM</span>
+                <span className="text-xs text-gray-400 tracking-widest">SWING {Math.round(tempo.swing * 100)}%</span>
+                {tempo.external
+                  ? <span className="text-xs text-cyan-300 tracking-widest">MIDI CLOCK</span>
+                  : tempoMode === 'conduct' && <span className="text-xs text-yellow-300 tracking-widest">CONDUCTING</span>}
+            </div>
+
             <button 
                 onClick={handleToggleRecord}
                 className={`absolute top-6 right-6 z-50 px-6 py-2 rounded-full font-bold border transition-all shadow-lg flex items-center gap-2 ${
@@ -155,6 +303,16 @@ const App: React.FC = () => {
             >
                 {isRecording ? 'STOP & SAVE' : 'REC VIDEO (R)'}
             </button>
+
+            {lastTake && !isRecording && (
+                <button
+                    onClick={handleExportStems}
+                    disabled={stemProgress !== null}
+                    className="absolute top-20 right-6 z-50 px-6 py-2 rounded-full font-bold border border-white/50 text-sm bg-black/20 hover:bg-white hover:text-black transition-all shadow-lg backdrop-blur-md disabled:opacity-60 disabled:hover:bg-black/20 disabled:hover:text-white"
+                >
+                    {stemProgress ? `RENDERING ${stemProgress}` : 'EXPORT WAV STEMS'}
+                </button>
+            )}
         </>
       )}
 
@@ -165,44 +323,177 @@ const App: React.FC = () => {
           </h1>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-5xl w-full">
             
-            {/* JAZZ BUTTON */}
-            <button 
-                onClick={() => startExperience(GameGenre.JAZZ)}
-                className="group relative h-64 border border-cyan-500/30 rounded-2xl bg-gradient-to-br from-gray-900 to-black hover:border-cyan-400 transition-all hover:scale-105 overflow-hidden"
-            >
-                <div className="absolute inset-0 bg-cyan-900/20 group-hover:bg-cyan-900/40 transition-colors"></div>
-                <div className="relative z-10 flex flex-col items-center justify-center h-full">
-                    <span className="text-4xl font-bold text-cyan-400 mb-2">JAZZ</span>
-                    <span className="text-sm text-cyan-200 uppercase tracking-widest">Swing & Smooth</span>
-                </div>
-            </button>
+            {listGenres().map(({ id, menu, key }) => (
+                <div key={id} className="flex flex-col gap-2">
+                    <button 
+                        onClick={() => startExperience(id)}
+                        className={`group relative h-64 border ${menu.theme.border} rounded-2xl bg-gradient-to-br from-gray-900 to-black transition-all hover:scale-105 overflow-hidden`}
+                    >
+                        <div className={`absolute inset-0 ${menu.theme.overlay} transition-colors`}></div>
+                        <div className="relative z-10 flex flex-col items-center justify-center h-full">
+                            <span className={`text-4xl font-bold ${menu.theme.title} mb-2`}>{menu.title}</span>
+                            <span className={`text-sm ${menu.theme.subtitle} uppercase tracking-widest`}>{menu.subtitle}</span>
+                        </div>
+                    </button>
 
-            {/* ELECTRONIC BUTTON (Formerly ROCK) */}
-            <button 
-                onClick={() => startExperience(GameGenre.ELECTRONIC)}
-                className="group relative h-64 border border-green-500/30 rounded-2xl bg-gradient-to-br from-gray-900 to-black hover:border-green-400 transition-all hover:scale-105 overflow-hidden"
-            >
-                <div className="absolute inset-0 bg-green-900/20 group-hover:bg-green-900/40 transition-colors"></div>
-                <div className="relative z-10 flex flex-col items-center justify-center h-full">
-                    <span className="text-4xl font-bold text-green-500 mb-2">ELECTRONIC</span>
-                    <span className="text-sm text-green-200 uppercase tracking-widest">High Energy Synth & Beats</span>
+                    {/* KEY & SCALE (transposes the changes; a scale overrides the chord-scales for the hands) */}
+                    <div className="flex gap-2 text-xs font-bold tracking-widest">
+                        <select
+                            value={keys[id].tonic}
+                            onChange={(e) => setKeys(prev => ({ ...prev, [id]: { ...prev[id], tonic: Number(e.target.value) } }))}
+                            className="flex-1 px-3 py-2 rounded-full border border-gray-600 bg-black text-gray-300 hover:border-white focus:outline-none cursor-pointer"
+                        >
+                            {KEY_NAMES.map((name, tonic) => (
+                                <option key={name} value={tonic}>KEY: {name}{tonic === pitchClassOf(key) ? ' (ORIGINAL)' : ''}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={keys[id].scale}
+                            onChange={(e) => setKeys(prev => ({ ...prev, [id]: { ...prev[id], scale: e.target.value as KeySelection['scale'] } }))}
+                            className="flex-1 px-3 py-2 rounded-full border border-gray-600 bg-black text-gray-300 hover:border-white focus:outline-none cursor-pointer"
+                        >
+                            <option value="changes">FOLLOW THE CHORDS</option>
+                            {SCALE_IDS.map(scale => (
+                                <option key={scale} value={scale}>{SCALES[scale].label.toUpperCase()}</option>
+                            ))}
+                        </select>
+                    </div>
                 </div>
-            </button>
+            ))}
 
-            {/* FUNK BUTTON */}
-            <button 
-                onClick={() => startExperience(GameGenre.FUNK)}
-                className="group relative h-64 border border-purple-500/30 rounded-2xl bg-gradient-to-br from-gray-900 to-black hover:border-purple-400 transition-all hover:scale-105 overflow-hidden"
-            >
-                <div className="absolute inset-0 bg-purple-900/20 group-hover:bg-purple-900/40 transition-colors"></div>
-                <div className="relative z-10 flex flex-col items-center justify-center h-full">
-                    <span className="text-4xl font-bold text-purple-400 mb-2">FUNK</span>
-                    <span className="text-sm text-purple-200 uppercase tracking-widest">Groove & Wah-Wah</span>
-                </div>
-            </button>
+          </div>
 
+          {/* PLAY MODE, LEAD VOICE, TEMPO & HAND ASSIGNMENT */}
+          <div className="mt-10 flex flex-wrap items-center justify-center gap-2 text-xs font-bold tracking-widest">
+            {(['continuous', 'pinch'] as PlayMode[]).map(mode => (
+                <button
+                    key={mode}
+                    onClick={() => setPlayMode(mode)}
+                    className={`px-4 py-2 rounded-full border transition-all ${
+                        playMode === mode ? 'bg-white text-black border-white' : 'border-gray-600 text-gray-400 hover:border-white hover:text-white'
+                    }`}
+                >
+                    {mode === 'continuous' ? 'CONTINUOUS' : 'PINCH TO PLAY'}
+                </button>
+            ))}
+            <span className="w-px h-6 bg-gray-700 mx-2"></span>
+            {(['notes', 'theremin', 'thereminSnap'] as LeadMode[]).map(mode => (
+                <button
+                    key={mode}
+                    onClick={() => setLeadMode(mode)}
+                    className={`px-4 py-2 rounded-full border transition-all ${
+                        leadMode === mode ? 'bg-white text-black border-white' : 'border-gray-600 text-gray-400 hover:border-white hover:text-white'
+                    }`}
+                >
+                    {mode === 'notes' ? 'LEAD: NOTES' : mode === 'theremin' ? 'LEAD: THEREMIN' : 'LEAD: THEREMIN + SNAP'}
+                </button>
+            ))}
+            <span className="w-px h-6 bg-gray-700 mx-2"></span>
+            {(['fixed', 'conduct'] as TempoMode[]).map(mode => (
+                <button
+                    key={mode}
+                    onClick={() => setTempoMode(mode)}
+                    className={`px-4 py-2 rounded-full border transition-all ${
+                        tempoMode === mode ? 'bg-white text-black border-white' : 'border-gray-600 text-gray-400 hover:border-white hover:text-white'
+                    }`}
+                >
+                    {mode === 'fixed' ? 'TEMPO: FIXED' : 'TEMPO: CONDUCT'}
+                </button>
+            ))}
+            <span className="w-px h-6 bg-gray-700 mx-2"></span>
+            {(['handedness', 'screenSide'] as HandAssignment[]).map(assignment => (
+                <button
+                    key={assignment}
+                    onClick={() => setHandAssignment(assignment)}
+                    className={`px-4 py-2 rounded-full border transition-all ${
+                        handAssignment === assignment ? 'bg-white text-black border-white' : 'border-gray-600 text-gray-400 hover:border-white hover:text-white'
+                    }`}
+                >
+                    {assignment === 'handedness' ? 'HANDS: BY HAND' : 'HANDS: BY SCREEN SIDE'}
+                </button>
+            ))}
           </div>
-          <p className="mt-12 text-gray-500">Select a genre to begin. Requires Camera & Audio.</p>
+
+          {/* INPUT SOURCE (camera, pointer, keyboard or a recorded take) */}
+          <div className="mt-4 flex items-center gap-2 text-xs font-bold tracking-widest">
+            {(['camera', 'pointer', 'keyboard'] as InputSourceKind[]).map(kind => (
+                <button
+                    key={kind}
+                    onClick={() => setInputKind(kind)}
+                    className={`px-4 py-2 rounded-full border transition-all ${
+                        inputKind === kind ? 'bg-white text-black border-white' : 'border-gray-600 text-gray-400 hover:border-white hover:text-white'
+                    }`}
+                >
+                    {INPUT_SOURCE_LABELS[kind]}
+                </button>
+            ))}
+            {replay ? (
+                <button
+                    onClick={() => {
+                        if (inputKind !== 'replay') { setInputKind('replay'); return; }
+                        setReplay(null);
+                        setInputKind('camera');
+                    }}
+                    className={`px-4 py-2 rounded-full border border-yellow-400 transition-all ${
+                        inputKind === 'replay' ? 'bg-yellow-400 text-black' : 'text-yellow-300 hover:bg-yellow-400 hover:text-black'
+                    }`}
+                >
+                    {INPUT_SOURCE_LABELS.replay}: {replay.frames.length} FRAMES{inputKind === 'replay' ? ' ✕' : ''}
+                </button>
+            ) : (
+                <label className="px-4 py-2 rounded-full border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-all cursor-pointer">
+                    LOAD LANDMARK TAKE
+                    <input type="file" accept="application/json,.json" className="hidden" onChange={handleLoadReplay} />
+                </label>
+            )}
+          </div>
+
+          {/* MIDI OUT (mirrors every note, gesture CCs and clock) & MIDI IN (clock sync, held chords) */}
+          <div className="mt-4 flex flex-wrap items-center justify-center gap-2 text-xs font-bold tracking-widest">
+            {midiOutputs === null ? (
+                <button
+                    onClick={handleEnableMidi}
+                    className="px-4 py-2 rounded-full border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-all"
+                >
+                    ENABLE MIDI
+                </button>
+            ) : midiOutputs.length + midiInputs.length === 0 ? (
+                <span className="px-4 py-2 text-gray-600">NO MIDI DEVICES FOUND</span>
+            ) : (
+                <>
+                {[null, ...midiOutputs].map(output => (
+                    <button
+                        key={output?.id ?? 'off'}
+                        onClick={() => handleSelectMidiOutput(output)}
+                        className={`px-4 py-2 rounded-full border transition-all ${
+                            midiOutputId === (output?.id ?? null) ? 'bg-white text-black border-white' : 'border-gray-600 text-gray-400 hover:border-white hover:text-white'
+                        }`}
+                    >
+                        {output ? `OUT: ${output.name ?? output.id}` : 'MIDI OUT OFF'}
+                    </button>
+                ))}
+                <span className="w-px h-6 bg-gray-700 mx-2"></span>
+                {[null, ...midiInputs].map(input => (
+                    <button
+                        key={input?.id ?? 'off'}
+                        onClick={() => handleSelectMidiInput(input)}
+                        className={`px-4 py-2 rounded-full border transition-all ${
+                            midiInputId === (input?.id ?? null) ? 'bg-white text-black border-white' : 'border-gray-600 text-gray-400 hover:border-white hover:text-white'
+                        }`}
+                    >
+                        {input ? `IN: ${input.name ?? input.id}` : 'MIDI IN OFF'}
+                    </button>
+                ))}
+                </>
+            )}
+          </div>
+
+          {/* SETLIST (sessions saved from a performance or imported, played in order) */}
+          <Setlist sessions={setlist} onChange={updateSetlist} onPlay={startSession} />
+
+          <p className="mt-8 text-gray-500">
+            Select a genre to begin. {inputKind === 'camera' ? 'Requires Camera & Audio.' : 'Requires Audio.'}
+          </p>
         </div>
       )}
 
@@ -215,9 +506,25 @@ const App: React.FC = () => {
       {appState === AppState.ERROR && (
         <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black p-8 text-center">
           <div className="text-red-500 text-6xl mb-4">⚠️</div>
-          <h2 className="text-2xl font-bold mb-2">System Failure</h2>
-          <p className="text-gray-400">Please check your permissions and reload.</p>
-          <button onClick={() => window.location.reload()} className="mt-6 px-6 py-2 border border-white rounded">Reload</button>
+          {error instanceof MediaPipeLoadError ? (
+            <>
+              <h2 className="text-2xl font-bold mb-2">Hand Tracking Unavailable</h2>
+              <p className="text-gray-400 max-w-xl">
+                The MediaPipe model files could not be loaded from <code className="text-gray-200">{MEDIAPIPE_ASSET_PATH}</code>.
+                Check that they are deployed with the app, or play with mouse/touch or keyboard input instead.
+              </p>
+              <p className="mt-2 text-xs text-gray-600 font-mono">{error.message}</p>
+            </>
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold mb-2">System Failure</h2>
+              <p className="text-gray-400">Please check your permissions and reload.</p>
+            </>
+          )}
+          <div className="mt-6 flex gap-4">
+            <button onClick={() => { setError(null); setAppState(AppState.IDLE); }} className="px-6 py-2 border border-white rounded">Menu</button>
+            <button onClick={() => window.location.reload()} className="px-6 py-2 border border-white rounded">Reload</button>
+          </div>
         </div>
       )}
     </div>
@@ -1,47 +1,53 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import p5 from 'p5';
-import { HandTracker } from '../services/handTracking';
 import { audioEngine } from '../services/audioEngine';
-import { HandState, AppState, GameGenre } from '../types';
+import { HandState, AppState, VisualMode, PlayMode, HandAssignment, ChordInfo, SongSection, TempoMode, VisualSettings } from '../types';
+import { GenreId } from '../genres';
+import { Conductor, createInputSource, GestureClassifier, HandDynamics, EMPTY_HAND_STATE, HandInputSource, InputSourceKind, MediaPipeInputSource, PoseGestureDetector, routeGesture } from '../services/input';
+import { SONG_SECTIONS } from '../services/songSections';
+import { LandmarkRecording, serializeLandmarkRecording } from '../services/landmarkRecording';
+import { downloadBlob, getTimestamp } from '../services/fileUtils';
+import { AudioFeatureId, readFeature } from '../services/audioAnalysis';
+
+// What the music drives in a visual mode, each 0-1. Modes bind these to audio
+// features (bass, highs, onsets...); unbound ones follow the overall level.
+interface VisualDrive {
+  motion: number; // Speed and flow
+  brightness: number;
+  size: number; // Scale, spread and stroke weight
+  flash: number; // Shakes and glitches
+}
 
 interface JazzCanvasProps {
   appState: AppState;
-  setAppState: (state: AppState) => void;
-  genre: GameGenre;
+  onError: (error: unknown) => void;
+  genre: GenreId;
+  playMode: PlayMode;
+  tempoMode: TempoMode;
+  inputKind: InputSourceKind;
+  handAssignment: HandAssignment;
+  replay: LandmarkRecording | null; // Landmark take used by the 'replay' input
+  visuals: VisualSettings;
 }
 
-const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre }) => {
+const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, onError, genre, playMode, tempoMode, inputKind, handAssignment, replay, visuals }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const handTrackerRef = useRef<HandTracker | null>(null);
+  const inputSourceRef = useRef<HandInputSource | null>(null);
   const p5InstanceRef = useRef<p5 | null>(null);
 
-  const handStateRef = useRef<HandState>({
-    left: null, right: null, isLeftPinching: false, isRightPinching: false, leftSqueeze: 0, rightSqueeze: 0
-  });
+  const handStateRef = useRef<HandState>(EMPTY_HAND_STATE);
 
   // Global Beat/Note flash references for visual reactivity
   const beatFlashRef = useRef(0);
   const noteTriggersRef = useRef<{x: number, y: number, life: number, type: 'left'|'right'}[]>([]);
+  const chordRef = useRef<{ chord: ChordInfo | null, flash: number }>({ chord: null, flash: 0 });
+  const sectionRef = useRef<{ section: SongSection, flash: number }>({ section: 'intro', flash: 0 });
+  const gestureRef = useRef<{ label: string, flash: number }>({ label: '', flash: 0 });
 
   const [debugMsg, setDebugMsg] = useState("Initializing Dual-Hand Generative System...");
 
-  // --- Hand Tracking Logic ---
-  const getHandOpenness = (landmarks: any[]): number => {
-    if (!landmarks || landmarks.length < 21) return 0;
-    const wrist = landmarks[0];
-    const tips = [8, 12, 16, 20]; 
-    let totalDist = 0;
-    tips.forEach(idx => {
-        const tip = landmarks[idx];
-        totalDist += Math.sqrt(Math.pow(tip.x - wrist.x, 2) + Math.pow(tip.y - wrist.y, 2));
-    });
-    const avgDist = totalDist / 4;
-    const openness = (avgDist - 0.15) / 0.25;
-    return Math.max(0, Math.min(1, openness));
-  };
-
   useEffect(() => {
     if (appState !== AppState.RUNNING || !containerRef.current || !videoRef.current) return;
 
@@ -58,36 +64,121 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
         noteTriggersRef.current.push({ x, y, life: 1.0, type: t });
     });
 
-    // Start Hand Tracking
-    const onHandResults = (results: any) => {
-      let left = null, right = null, leftSqueeze = 0, rightSqueeze = 0;
+    chordRef.current = { chord: audioEngine.getCurrentChord(), flash: 1.0 };
+    audioEngine.onChordChange((chord) => {
+        chordRef.current = { chord, flash: 1.0 };
+    });
 
-      if (results.multiHandLandmarks) {
-        for (const [index, landmarks] of results.multiHandLandmarks.entries()) {
-          const isRight = results.multiHandedness[index].label === 'Right';
-          const tip = landmarks[8]; 
-          // Map to 0-1 range (Mirror horizontal)
-          const coords = { x: 1 - tip.x, y: tip.y }; 
-          
-          const openness = getHandOpenness(landmarks);
-          const squeeze = 1.0 - openness;
+    sectionRef.current = { section: audioEngine.getSection(), flash: 1.0 };
+    audioEngine.onSectionChange((section) => {
+        sectionRef.current = { section, flash: 1.0 };
+    });
 
-          if (isRight) { right = coords; rightSqueeze = squeeze; }
-          else { left = coords; leftSqueeze = squeeze; }
-        }
-      }
+    // Two-handed poses held for a bar move the arrangement and drive the looper;
+    // one-handed poses and motions fire their bound actions straight away
+    const poseGestures = new PoseGestureDetector();
+    const gestureClassifiers = { left: new GestureClassifier('left'), right: new GestureClassifier('right') };
+    const conductor = tempoMode === 'conduct' ? new Conductor() : null;
+    // Strike speed and depth set each hand's note velocity, filter envelope and pan
+    const dynamics = { left: new HandDynamics(), right: new HandDynamics() };
+
+    // Start Hand Input
+    const onHandState = (state: HandState) => {
+      const { left, right } = state;
 
       // Pass data to Audio Engine
-      if (right) audioEngine.updateRightHand(right.y, right.x, true, rightSqueeze);
-      if (left) audioEngine.updateLeftHand(left.y, left.x, true, leftSqueeze);
+      const continuous = playMode === 'continuous';
+      const now = performance.now();
+      const rightDynamics = dynamics.right.update(right, now);
+      const leftDynamics = dynamics.left.update(left, now);
+      if (right) audioEngine.updateRightHand(right.y, right.x, continuous || state.isRightPinching, state.rightSqueeze, rightDynamics, state.isRightPinching);
+      else audioEngine.releaseRightHand();
+      if (left) audioEngine.updateLeftHand(left.y, left.x, continuous || state.isLeftPinching, state.leftSqueeze, leftDynamics, state.isLeftPinching);
+
+      if (conductor) {
+        const { bpm, swing, beat } = conductor.update(state, performance.now());
+        if (bpm !== null) audioEngine.setTempo(bpm);
+        if (swing !== null) audioEngine.setSwing(swing);
+        if (beat) beatFlashRef.current = Math.max(beatFlashRef.current, 0.5);
+      }
+
+      const pose = poseGestures.update(state, now, audioEngine.getBarDuration() * 1000);
+      if (pose) audioEngine.performAction(pose);
 
-      handStateRef.current = { left, right, isLeftPinching: false, isRightPinching: false, leftSqueeze, rightSqueeze };
+      for (const event of [gestureClassifiers.left.update(left, now), gestureClassifiers.right.update(right, now)]) {
+        const action = event && routeGesture(event);
+        if (!event || !action) continue;
+        audioEngine.performAction(action);
+        gestureRef.current = { label: `${event.gesture} → ${action}`, flash: 1.0 };
+      }
+
+      handStateRef.current = state;
+    };
+
+    inputSourceRef.current = createInputSource(inputKind, {
+      videoElement: videoRef.current,
+      element: containerRef.current,
+      recording: replay,
+      assignment: handAssignment,
+    }, onHandState);
+    inputSourceRef.current.start()
+      .then(() => setDebugMsg(inputKind === 'replay' && replay ? `Replaying recorded take (${replay.frames.length} frames)` : ""))
+      .catch(onError);
+
+    // 'G' cycles the drum groove, 'F' queues a fill, 'N' moves to the next section
+    // 'O' records / overdubs a loop, 'U' undoes the last loop layer, 'C' clears the loop
+    // 'M' mutes / unmutes the drums, 'B' the bass
+    // 'L' toggles raw landmark recording (live camera only)
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (key === 'o') {
+        audioEngine.toggleLooperRecord();
+        return;
+      }
+      if (key === 'u') {
+        audioEngine.undoLooperLayer();
+        return;
+      }
+      if (key === 'c') {
+        audioEngine.clearLooper();
+        return;
+      }
+      if (key === 'n') {
+        audioEngine.nextSection();
+        return;
+      }
+      if (key === 'g') {
+        audioEngine.setDrumGroove(audioEngine.getActiveDrumGroove() + 1);
+        setDebugMsg(`Groove: ${audioEngine.getDrumGrooves()[audioEngine.getActiveDrumGroove()]}`);
+        return;
+      }
+      if (key === 'f') {
+        audioEngine.queueDrumFill();
+        return;
+      }
+      if (key === 'm') {
+        audioEngine.toggleMute('drums');
+        return;
+      }
+      if (key === 'b') {
+        audioEngine.toggleMute('bass');
+        return;
+      }
+      const source = inputSourceRef.current;
+      if (key !== 'l' || !(source instanceof MediaPipeInputSource)) return;
+      if (!source.isRecording) {
+        source.startRecording();
+        setDebugMsg("● Recording landmarks (L to save)");
+      } else {
+        const recording = source.stopRecording();
+        const blob = new Blob([serializeLandmarkRecording(recording)], { type: 'application/json' });
+        downloadBlob(blob, `Landmarks_${getTimestamp()}.json`);
+        setDebugMsg("");
+      }
     };
+    window.addEventListener('keydown', handleKeyDown);
 
-    handTrackerRef.current = new HandTracker(onHandResults);
-    handTrackerRef.current.start(videoRef.current)
-      .then(() => setDebugMsg(""))
-      .catch(err => setAppState(AppState.ERROR));
+    const visualMode = visuals.mode;
 
     // --- P5.JS SKETCH ---
     const sketch = (p: p5) => {
@@ -95,6 +186,8 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
       
       // Physics & Energy State
       let smoothedAudio = 0;
+      const drive: VisualDrive = { motion: 0, brightness: 0, size: 0, flash: 0 }; // Updated in place each frame
+      let sectionIntensity = 1;
       let prevLeftHand: p5.Vector | null = null;
       let prevRightHand: p5.Vector | null = null;
       let globalHue = 0;
@@ -108,25 +201,27 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
 
       const initParticles = () => {
         particles = [];
-        let count = 0;
-        
-        if (genre === GameGenre.JAZZ) count = 300; 
-        else if (genre === GameGenre.FUNK) count = 250; 
-        else if (genre === GameGenre.ELECTRONIC) count = 60; // Slightly fewer nodes for cleaner connection web
-
+        const mode = visualModes[visualMode];
+        const count = Math.max(1, Math.round(mode.count * visuals.density));
         for (let i = 0; i < count; i++) {
-          if (genre === GameGenre.JAZZ) particles.push(new LiquidParticle(p));
-          else if (genre === GameGenre.FUNK) particles.push(new VortexParticle(p));
-          else if (genre === GameGenre.ELECTRONIC) particles.push(new NeuralNode(p));
+          particles.push(mode.spawn());
         }
       };
 
       p.draw = () => {
         // --- 1. GLOBAL STATE UPDATES ---
         
-        // Audio Energy Analysis
-        const rawEnergy = audioEngine.getEnergy(); // 0.0 to 1.0 (linear)
-        smoothedAudio = p.lerp(smoothedAudio, rawEnergy, 0.15); // Snappier response
+        // Audio Analysis (already smoothed; the level is 0.0 to 1.0 linear)
+        const features = audioEngine.analyse(p.millis());
+        smoothedAudio = features.level;
+
+        // Section intensity eases in so a change reads as a swell, not a jump
+        sectionIntensity = p.lerp(sectionIntensity, SONG_SECTIONS[sectionRef.current.section].intensity, 0.02);
+        const { bindings } = visualModes[visualMode];
+        drive.motion = Math.min(1, readFeature(features, bindings.motion ?? 'level') * sectionIntensity);
+        drive.brightness = Math.min(1, readFeature(features, bindings.brightness ?? 'level') * sectionIntensity);
+        drive.size = Math.min(1, readFeature(features, bindings.size ?? 'level') * sectionIntensity);
+        drive.flash = Math.min(1, readFeature(features, bindings.flash ?? 'level') * sectionIntensity);
         
         // Hand Vectors
         const currentHands = handStateRef.current;
@@ -146,7 +241,7 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
         
         p.blendMode(p.BLEND);
         
-        if (genre === GameGenre.ELECTRONIC) {
+        if (visualMode === 'neural') {
             // Mode 2: Techno Strobe Logic
             // Background reacts to audio level (0 to 15 brightness)
             // This replaces the solid black with a pulsating dark grey
@@ -171,7 +266,7 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
         p.blendMode(p.ADD);
         
         // Global Hue Rotation
-        globalHue = (p.frameCount * 0.2) % 360;
+        globalHue = ((p.frameCount * visuals.hueSpeed) % 360 + 360) % 360;
 
         // Render Note Bursts (Dual Color System)
         for(let i = noteTriggersRef.current.length - 1; i >= 0; i--) {
@@ -187,13 +282,76 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
         }
 
         // --- MODE SPECIFIC DRAWING ---
-        if (genre === GameGenre.JAZZ) {
-            drawJazzMode(p, particles, handPos, handVels, smoothedAudio);
-        } else if (genre === GameGenre.FUNK) {
-            drawFunkMode(p, particles, handPos, smoothedAudio, globalHue);
-        } else if (genre === GameGenre.ELECTRONIC) {
-            drawElectronicMode(p, particles, handPos, smoothedAudio);
-        }
+        visualModes[visualMode].draw(particles, handPos, handVels, drive, globalHue);
+
+        drawChord();
+        drawSection();
+        drawLooper();
+        drawGesture();
+      };
+
+      // Current chord symbol, flaring up on each change
+      const drawChord = () => {
+        const current = chordRef.current;
+        if (!current.chord) return;
+        p.push();
+        p.blendMode(p.BLEND);
+        p.noStroke();
+        p.fill(0, 0, 100, 25 + current.flash * 60);
+        p.textAlign(p.CENTER, p.BOTTOM);
+        p.textStyle(p.BOLD);
+        p.textSize(36 + current.flash * 12);
+        p.text(current.chord.symbol, p.width / 2, p.height - 24);
+        p.pop();
+        current.flash *= 0.95;
+      };
+
+      // Section name above the chord, flaring up when the arrangement moves
+      const drawSection = () => {
+        const current = sectionRef.current;
+        p.push();
+        p.blendMode(p.BLEND);
+        p.noStroke();
+        p.fill(0, 0, 100, 15 + current.flash * 70);
+        p.textAlign(p.CENTER, p.BOTTOM);
+        p.textSize(12 + current.flash * 4);
+        p.text(SONG_SECTIONS[current.section].label, p.width / 2, p.height - 80);
+        p.pop();
+        current.flash *= 0.97;
+      };
+
+      // The last recognized gesture and what it did, fading out
+      const drawGesture = () => {
+        const current = gestureRef.current;
+        if (current.flash < 0.01) return;
+        p.push();
+        p.blendMode(p.BLEND);
+        p.noStroke();
+        p.fill(0, 0, 100, current.flash * 80);
+        p.textAlign(p.LEFT, p.BOTTOM);
+        p.textSize(12);
+        p.text(current.label.toUpperCase(), 24, p.height - 44);
+        p.pop();
+        current.flash *= 0.97;
+      };
+
+      // Looper status in the corner: red while capturing, pulsing while waiting for the bar line
+      const drawLooper = () => {
+        const state = audioEngine.getLooperState();
+        if (state === 'empty') return;
+        const layers = audioEngine.getLooperLayers();
+        const capturing = state === 'recording' || state === 'overdubbing';
+        const waiting = state === 'armed' || state === 'overdubArmed';
+        const label = capturing ? `● REC LAYER ${layers + 1}` : waiting ? '○ REC ON NEXT LOOP' : `⟳ LOOP ×${layers}`;
+        p.push();
+        p.blendMode(p.BLEND);
+        p.noStroke();
+        if (capturing) p.fill(0, 80, 100, 90);
+        else p.fill(0, 0, 100, waiting ? 40 + 40 * Math.abs(Math.sin(p.millis() / 200)) : 60);
+        p.textAlign(p.LEFT, p.BOTTOM);
+        p.textSize(12);
+        p.text(label, 24, p.height - 24);
+        p.pop();
       };
 
       // =================================================================
@@ -212,7 +370,7 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
             this.maxSpeed = this.baseMaxSpeed;
         }
 
-        update(p: p5, hands: {left: p5.Vector|null, right: p5.Vector|null}, audio: number) {
+        update(p: p5, hands: {left: p5.Vector|null, right: p5.Vector|null}, motion: number) {
             this.prevPos = this.pos.copy();
             
             // Determine Dominance and Role
@@ -229,7 +387,7 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
             
             // Trumpet (Right) moves faster through the noise field (sharper variation)
             let timeSpeed = isTrumpet ? 0.02 : 0.005;
-            let timeScale = p.frameCount * (timeSpeed + (audio * 0.02)); 
+            let timeScale = p.frameCount * (timeSpeed + (motion * 0.02)); 
             
             let angle = p.noise(this.pos.x * nScale, this.pos.y * nScale, timeScale) * p.TWO_PI * 4;
             let flow = p5.Vector.fromAngle(angle);
@@ -237,16 +395,16 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
             if (isTrumpet) {
                 // TRUMPET PHYSICS: Sharp, Fast, Explosive Attack
                 // Multiply flow force significantly
-                flow.mult(1.5 + (audio * 10)); // Huge burst on audio spike
+                flow.mult(1.5 + (motion * 10)); // Huge burst on audio spike
                 this.acc.add(flow);
                 // Much higher speed limit for trumpet
-                this.maxSpeed = this.baseMaxSpeed * (2.5 + audio * 4); 
+                this.maxSpeed = this.baseMaxSpeed * (2.5 + motion * 4); 
             } else {
                 // SAX/NEUTRAL PHYSICS: Smooth, Sultry, Flowing
-                flow.mult(0.5 + (audio * 2)); 
+                flow.mult(0.5 + (motion * 2)); 
                 this.acc.add(flow);
                 // Standard speed
-                this.maxSpeed = this.baseMaxSpeed * (1 + audio * 2);
+                this.maxSpeed = this.baseMaxSpeed * (1 + motion * 2);
             }
 
             // Hand Attraction (Gravity)
@@ -275,7 +433,7 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
             if (this.pos.y < 0) { this.pos.y = p.height; this.prevPos.y = this.pos.y; }
         }
 
-        show(p: p5, hands: {left: p5.Vector|null, right: p5.Vector|null}, audio: number) {
+        show(p: p5, hands: {left: p5.Vector|null, right: p5.Vector|null}, drive: VisualDrive) {
             // Determine Color based on Proximity Role
             let leftDist = hands.left ? p.dist(this.pos.x, this.pos.y, hands.left.x, hands.left.y) : 9999;
             let rightDist = hands.right ? p.dist(this.pos.x, this.pos.y, hands.right.x, hands.right.y) : 9999;
@@ -293,8 +451,8 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
                  // Deep, rich saturation
                  sat = 90; 
                  // Brightness pulses with audio but stays somewhat deep
-                 bri = p.map(audio, 0, 1, 50, 95); 
-                 alpha = p.map(audio, 0, 1, 60, 100);
+                 bri = p.map(drive.brightness, 0, 1, 50, 95); 
+                 alpha = p.map(drive.brightness, 0, 1, 60, 100);
 
             } else if (rightDist <= leftDist && rightDist < INFLUENCE_RADIUS) {
                  // RIGHT HAND: BRASSY TRUMPET
@@ -304,7 +462,7 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
                  hueVal = p.lerp(35, 55, mapDist); 
                  
                  // Metallic effect: High brightness, desaturates (whitens) on high audio energy
-                 sat = p.map(audio, 0, 1, 90, 40); // Becomes whiter/shinier when loud
+                 sat = p.map(drive.brightness, 0, 1, 90, 40); // Becomes whiter/shinier when loud
                  bri = 100; // Always bright
                  alpha = 90;
 
@@ -317,15 +475,15 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
             }
 
             p.stroke(hueVal, sat, bri, alpha);
-            p.strokeWeight(1 + (audio * 4));
+            p.strokeWeight(1 + (drive.size * 4));
             p.line(this.prevPos.x, this.prevPos.y, this.pos.x, this.pos.y);
         }
       }
 
-      function drawJazzMode(p: p5, pts: LiquidParticle[], hPos: any, hVels: any, audio: number) {
+      function drawJazzMode(p: p5, pts: LiquidParticle[], hPos: any, hVels: any, drive: VisualDrive) {
           pts.forEach(pt => {
-              pt.update(p, hPos, audio);
-              pt.show(p, hPos, audio);
+              pt.update(p, hPos, drive.motion);
+              pt.show(p, hPos, drive);
           });
       }
 
@@ -356,12 +514,12 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
             if (this.z < 1) this.respawn(p);
         }
 
-        show(p: p5, hPos: {left: p5.Vector|null, right: p5.Vector|null}, audio: number, gHue: number) {
+        show(p: p5, hPos: {left: p5.Vector|null, right: p5.Vector|null}, size: number, gHue: number) {
             let cx = p.width / 2;
             let cy = p.height / 2;
 
             // Audio expands the ring
-            let expansion = 1 + (audio * 0.5);
+            let expansion = 1 + (size * 0.5);
 
             // Global rotation determined by hands
             let rot = vortexAngle;
@@ -390,14 +548,14 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
         }
       }
 
-      function drawFunkMode(p: p5, pts: VortexParticle[], hPos: any, audio: number, gHue: number) {
+      function drawFunkMode(p: p5, pts: VortexParticle[], hPos: any, drive: VisualDrive, gHue: number) {
           if (hPos.left) vortexAngle -= 0.02;
           if (hPos.right) vortexAngle += 0.02;
           
           p.push();
           pts.forEach(pt => {
-              pt.update(p, audio);
-              pt.show(p, hPos, audio, gHue);
+              pt.update(p, drive.motion);
+              pt.show(p, hPos, drive.size, gHue);
           });
           p.pop();
       }
@@ -417,7 +575,7 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
             this.id = Math.random();
         }
 
-        update(p: p5, hPos: {left: p5.Vector|null, right: p5.Vector|null}, audio: number) {
+        update(p: p5, hPos: {left: p5.Vector|null, right: p5.Vector|null}, flash: number) {
             this.pos.add(this.vel);
             
             // Bounce
@@ -433,7 +591,7 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
             else this.type = 'neutral';
 
             // Audio Glitch / Shake
-            if (audio > 0.6 && Math.random() > 0.8) {
+            if (flash > 0.6 && Math.random() > 0.8) {
                 this.pos.x += p.random(-10, 10);
                 this.pos.y += p.random(-10, 10);
             }
@@ -451,7 +609,7 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
         }
       }
 
-      function drawElectronicMode(p: p5, nodes: NeuralNode[], hPos: any, audio: number) {
+      function drawElectronicMode(p: p5, nodes: NeuralNode[], hPos: any, drive: VisualDrive) {
           p.push();
           
           // 1. Camera Effects (Beat Reaction)
@@ -460,12 +618,12 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
 
           // Global Zoom: "Breathe" with the bass
           // scale(1.0 + audioLevel * 0.05)
-          let zoomFactor = 1.0 + (audio * 0.08); // Slight boost to 0.08 for visibility
+          let zoomFactor = 1.0 + (drive.size * 0.08); // Slight boost to 0.08 for visibility
           p.scale(zoomFactor);
 
           // Screen Shake: If high energy (Techno Kick)
-          if (audio > 0.6) {
-             let shakeVal = (audio - 0.6) * 40; 
+          if (drive.flash > 0.6) {
+             let shakeVal = (drive.flash - 0.6) * 40; 
              p.translate(p.random(-shakeVal, shakeVal), p.random(-shakeVal, shakeVal));
           }
 
@@ -474,7 +632,7 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
 
           // 2. Draw Connections
           // AudioLevel controls line thickness
-          p.strokeWeight(1 + (audio * 8)); 
+          p.strokeWeight(1 + (drive.size * 8)); 
           
           for (let i = 0; i < nodes.length; i++) {
               let n1 = nodes[i];
@@ -483,7 +641,7 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
                   let d = p.dist(n1.pos.x, n1.pos.y, n2.pos.x, n2.pos.y);
                   
                   // Connection threshold increases with energy
-                  let connectDist = 180 + (audio * 100);
+                  let connectDist = 180 + (drive.motion * 100);
 
                   if (d < connectDist) {
                       let alpha = p.map(d, 0, connectDist, 100, 0);
@@ -494,8 +652,8 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
                       else c1 = p.color(120, 50, 80);
                       
                       // Intensity: High Audio = Brighter, Whiter lines
-                      if (audio > 0.5) {
-                          let bleach = p.map(audio, 0.5, 1.0, 0, 1);
+                      if (drive.brightness > 0.5) {
+                          let bleach = p.map(drive.brightness, 0.5, 1.0, 0, 1);
                           let s = p.lerp(p.saturation(c1), 0, bleach); // Desaturate to white
                           p.stroke(p.hue(c1), s, 100, alpha);
                       } else {
@@ -506,12 +664,39 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
                   }
               }
               // Update and draw node
-              n1.update(p, hPos, audio);
+              n1.update(p, hPos, drive.flash);
               n1.show(p);
           }
           p.pop();
       }
 
+      // Visual mode table: genres select an entry by id via `visualMode`
+      const visualModes: Record<VisualMode, {
+        count: number;
+        spawn: () => any;
+        bindings: Partial<Record<keyof VisualDrive, AudioFeatureId>>;
+        draw: (pts: any[], hPos: any, hVels: any, drive: VisualDrive, gHue: number) => void;
+      }> = {
+        liquid: {
+          count: 300,
+          spawn: () => new LiquidParticle(p),
+          bindings: { motion: 'bass', brightness: 'highs' }, // Flow rides the bass, trumpet glints on the cymbals
+          draw: (pts, hPos, hVels, drive) => drawJazzMode(p, pts, hPos, hVels, drive),
+        },
+        vortex: {
+          count: 250,
+          spawn: () => new VortexParticle(p),
+          bindings: { motion: 'DRUMS', size: 'bass' }, // The groove pulls you in, the bass opens the ring
+          draw: (pts, hPos, hVels, drive, gHue) => drawFunkMode(p, pts, hPos, drive, gHue),
+        },
+        neural: {
+          count: 60, // Slightly fewer nodes for cleaner connection web
+          spawn: () => new NeuralNode(p),
+          bindings: { motion: 'mids', size: 'sub', brightness: 'highs', flash: 'onset' }, // Kicks breathe, transients shake
+          draw: (pts, hPos, hVels, drive) => drawElectronicMode(p, pts, hPos, drive),
+        },
+      };
+
       p.windowResized = () => {
         p.resizeCanvas(p.windowWidth, p.windowHeight);
         initParticles();
@@ -521,10 +706,11 @@ const JazzCanvas: React.FC<JazzCanvasProps> = ({ appState, setAppState, genre })
     p5InstanceRef.current = new p5(sketch, containerRef.current);
 
     return () => {
-      handTrackerRef.current?.stop();
+      window.removeEventListener('keydown', handleKeyDown);
+      inputSourceRef.current?.stop();
       p5InstanceRef.current?.remove();
     };
-  }, [appState, setAppState, genre]);
+  }, [appState, onError, genre, playMode, tempoMode, inputKind, handAssignment, replay, visuals]);
 
   return (
     <div className="absolute inset-0 w-full h-full bg-black overflow-hidden">
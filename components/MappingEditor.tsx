@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { audioEngine } from '../services/audioEngine';
+import { getGenre, GenreId } from '../genres';
+import { CONTROL_SOURCES, MAPPING_CURVES, ParameterMapping, parseMappingPreset, serializeMappingPreset } from '../services/mappings';
+import { clearSavedMappings, saveMappings } from '../services/mappingStore';
+import { downloadBlob, getTimestamp } from '../services/fileUtils';
+import { HandSide } from '../types';
+
+interface MappingEditorProps {
+  genre: GenreId;
+}
+
+const CURVE_LABELS: Record<ParameterMapping['curve'], string> = {
+  linear: 'LINEAR',
+  exponential: 'EXP',
+  logarithmic: 'LOG',
+  sCurve: 'S-CURVE',
+};
+
+const BUTTON = "px-4 py-2 rounded-full border border-gray-600 text-gray-300 hover:border-white hover:text-white transition-all cursor-pointer";
+const FIELD = "px-2 py-1 rounded border border-gray-700 bg-black text-gray-200 focus:outline-none focus:border-white";
+
+// Live editor for the hand-to-parameter matrix. Every edit goes straight to
+// the engine; SAVE keeps the set for this genre across sessions.
+const MappingEditor: React.FC<MappingEditorProps> = ({ genre }) => {
+  const [open, setOpen] = useState(false);
+  const [mappings, setMappingsState] = useState<ParameterMapping[]>(() => audioEngine.getMappings());
+  const [status, setStatus] = useState<string | null>(null);
+  const targets = audioEngine.getMappingTargets();
+
+  const apply = (next: ParameterMapping[], message: string | null = null) => {
+    setMappingsState(next);
+    audioEngine.setMappings(next);
+    setStatus(message);
+  };
+
+  const updateRow = (index: number, changes: Partial<ParameterMapping>) =>
+    apply(mappings.map((m, i) => i === index ? { ...m, ...changes } : m));
+
+  // A new target brings its own sensible range with it
+  const changeTarget = (index: number, id: string) => {
+    const target = targets.find(t => t.id === id);
+    updateRow(index, target ? { target: id, min: target.min, max: target.max } : { target: id });
+  };
+
+  const handleAdd = () => {
+    const target = targets[0];
+    if (!target) return;
+    apply([...mappings, { hand: 'right', source: 'y', target: target.id, min: target.min, max: target.max, curve: 'linear', invert: false, smoothing: 0 }]);
+  };
+
+  const handleSave = () => {
+    saveMappings(genre, mappings);
+    setStatus('SAVED');
+  };
+
+  const handleReset = () => {
+    clearSavedMappings(genre);
+    apply(getGenre(genre).mappings, 'GENRE DEFAULTS RESTORED');
+  };
+
+  const handleExport = () => {
+    const json = serializeMappingPreset(genre, mappings);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${genre}_mappings_${getTimestamp()}.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const preset = parseMappingPreset(await file.text());
+      const missing = preset.mappings.filter(m => !targets.some(t => t.id === m.target)).length;
+      apply(preset.mappings, missing > 0 ? `LOADED (${missing} TARGET${missing > 1 ? 'S' : ''} NOT IN THIS GENRE)` : 'LOADED');
+    } catch (err) {
+      console.error(err);
+      setStatus(`IMPORT FAILED: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="absolute top-20 left-6 z-50 flex flex-col items-start gap-2 text-xs font-bold tracking-widest">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className={`px-4 py-2 rounded-full border transition-all shadow-lg backdrop-blur-md ${
+          open ? 'bg-white text-black border-white' : 'border-white/50 text-white bg-black/20 hover:bg-white hover:text-black'
+        }`}
+      >
+        {open ? 'MAPPINGS ✕' : 'MAPPINGS'}
+      </button>
+
+      {open && (
+        <div className="max-w-[calc(100vw-3rem)] max-h-[60vh] overflow-auto p-4 rounded-2xl border border-white/30 bg-black/80 backdrop-blur-md">
+          <table className="border-separate border-spacing-x-2 border-spacing-y-1">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th>HAND</th><th>SOURCE</th><th>TARGET</th><th>MIN</th><th>MAX</th><th>CURVE</th><th>INV</th><th>SMOOTH</th><th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {mappings.map((m, i) => (
+                <tr key={i}>
+                  <td>
+                    <select value={m.hand} onChange={(e) => updateRow(i, { hand: e.target.value as HandSide })} className={FIELD}>
+                      <option value="right">RIGHT</option>
+                      <option value="left">LEFT</option>
+                    </select>
+                  </td>
+                  <td>
+                    <select value={m.source} onChange={(e) => updateRow(i, { source: e.target.value as ParameterMapping['source'] })} className={FIELD}>
+                      {CONTROL_SOURCES.map(source => <option key={source} value={source}>{source.toUpperCase()}</option>)}
+                    </select>
+                  </td>
+                  <td>
+                    <select value={m.target} onChange={(e) => changeTarget(i, e.target.value)} className={FIELD}>
+                      {!targets.some(t => t.id === m.target) && <option value={m.target}>{m.target} (UNAVAILABLE)</option>}
+                      {targets.map(target => <option key={target.id} value={target.id}>{target.label}</option>)}
+                    </select>
+                  </td>
+                  <td>
+                    <input type="number" value={m.min} onChange={(e) => { const v = Number(e.target.value); if (Number.isFinite(v)) updateRow(i, { min: v }); }} className={`${FIELD} w-20`} />
+                  </td>
+                  <td>
+                    <input type="number" value={m.max} onChange={(e) => { const v = Number(e.target.value); if (Number.isFinite(v)) updateRow(i, { max: v }); }} className={`${FIELD} w-20`} />
+                  </td>
+                  <td>
+                    <select value={m.curve} onChange={(e) => updateRow(i, { curve: e.target.value as ParameterMapping['curve'] })} className={FIELD}>
+                      {MAPPING_CURVES.map(curve => <option key={curve} value={curve}>{CURVE_LABELS[curve]}</option>)}
+                    </select>
+                  </td>
+                  <td className="text-center">
+                    <input type="checkbox" checked={m.invert} onChange={(e) => updateRow(i, { invert: e.target.checked })} className="accent-white cursor-pointer" />
+                  </td>
+                  <td>
+                    <input type="range" min={0} max={0.95} step={0.05} value={m.smoothing} onChange={(e) => updateRow(i, { smoothing: Number(e.target.value) })} className="w-20 accent-white cursor-pointer" />
+                  </td>
+                  <td>
+                    <button onClick={() => apply(mappings.filter((_, j) => j !== i))} className="px-2 text-gray-500 hover:text-red-400">✕</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {mappings.length === 0 && <p className="px-2 py-2 text-gray-500">NO MAPPINGS</p>}
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <button onClick={handleAdd} className={BUTTON}>+ ADD</button>
+            <button onClick={handleSave} className={BUTTON}>SAVE</button>
+            <button onClick={handleReset} className={BUTTON}>RESET TO GENRE</button>
+            <button onClick={handleExport} className={BUTTON}>EXPORT JSON</button>
+            <label className={BUTTON}>
+              IMPORT JSON
+              <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </label>
+            {status && <span className={status.startsWith('IMPORT FAILED') ? 'text-red-400' : 'text-gray-400'}>{status}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MappingEditor;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { audioEngine } from '../services/audioEngine';
+import { ChannelSettings, MIXER_CHANNELS, MixerChannelId, MixSettings, MUTE_GROUPS, MuteGroup } from '../services/mixer';
+
+const SLIDER = "w-full accent-white cursor-pointer";
+
+// Collapsible channel strips. Mute shortcuts (gestures, keys) change the mix
+// from outside, so while open the panel polls the engine along with the meters.
+const MixerPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [mix, setMix] = useState<MixSettings>(() => audioEngine.getMix());
+  const [levels, setLevels] = useState<number[]>(() => MIXER_CHANNELS.map(() => 0));
+
+  useEffect(() => {
+    if (!open) return;
+    const update = () => {
+      setMix(audioEngine.getMix());
+      setLevels(MIXER_CHANNELS.map(id => audioEngine.getChannelLevel(id)));
+    };
+    update();
+    const id = window.setInterval(update, 100);
+    return () => window.clearInterval(id);
+  }, [open]);
+
+  const change = (id: MixerChannelId, changes: Partial<ChannelSettings>) => {
+    audioEngine.setChannel(id, changes);
+    setMix(audioEngine.getMix());
+  };
+
+  const toggleGroup = (group: MuteGroup) => {
+    audioEngine.toggleMute(group);
+    setMix(audioEngine.getMix());
+  };
+
+  return (
+    <div className="absolute top-32 right-6 z-50 flex flex-col items-end gap-2 text-xs font-bold tracking-widest">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className={`px-4 py-2 rounded-full border transition-all shadow-lg backdrop-blur-md ${
+          open ? 'bg-white text-black border-white' : 'border-white/50 text-white bg-black/20 hover:bg-white hover:text-black'
+        }`}
+      >
+        {open ? 'MIXER ✕' : 'MIXER'}
+      </button>
+
+      {open && (
+        <div className="p-4 rounded-2xl border border-white/30 bg-black/80 backdrop-blur-md">
+          <div className="flex gap-4">
+            {MIXER_CHANNELS.map((id, i) => {
+              const strip = mix[id];
+              return (
+                <div key={id} className="w-20 flex flex-col gap-2">
+                  <span className="text-center">{id.toUpperCase()}</span>
+                  <div className="h-1.5 rounded-full bg-gray-800 overflow-hidden">
+                    <div className="h-full bg-green-400" style={{ width: `${Math.min(1, levels[i]) * 100}%` }}></div>
+                  </div>
+                  <label className="flex flex-col gap-1 text-gray-500">
+                    GAIN {strip.gain > 0 ? '+' : ''}{strip.gain.toFixed(1)}
+                    <input type="range" min={-40} max={6} step={0.5} value={strip.gain} onChange={(e) => change(id, { gain: Number(e.target.value) })} className={SLIDER} />
+                  </label>
+                  <label className="flex flex-col gap-1 text-gray-500">
+                    PAN {strip.pan === 0 ? 'C' : `${strip.pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(strip.pan) * 100)}`}
+                    <input type="range" min={-1} max={1} step={0.05} value={strip.pan} onChange={(e) => change(id, { pan: Number(e.target.value) })} className={SLIDER} />
+                  </label>
+                  <label className="flex flex-col gap-1 text-gray-500">
+                    VERB {Math.round(strip.send * 100)}%
+                    <input type="range" min={0} max={1} step={0.05} value={strip.send} onChange={(e) => change(id, { send: Number(e.target.value) })} className={SLIDER} />
+                  </label>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => change(id, { mute: !strip.mute })}
+                      className={`flex-1 py-1 rounded border transition-all ${strip.mute ? 'bg-red-600 border-red-600' : 'border-gray-600 text-gray-400 hover:border-white'}`}
+                    >
+                      M
+                    </button>
+                    <button
+                      onClick={() => change(id, { solo: !strip.solo })}
+                      className={`flex-1 py-1 rounded border transition-all ${strip.solo ? 'bg-yellow-400 border-yellow-400 text-black' : 'border-gray-600 text-gray-400 hover:border-white'}`}
+                    >
+                      S
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Mute groups, also on gestures (left swipes) and keys (M drums, B bass) */}
+          <div className="mt-3 flex justify-end gap-2">
+            {(Object.keys(MUTE_GROUPS) as MuteGroup[]).map(group => {
+              const muted = MUTE_GROUPS[group].every(id => mix[id].mute);
+              return (
+                <button
+                  key={group}
+                  onClick={() => toggleGroup(group)}
+                  className={`px-4 py-2 rounded-full border transition-all ${
+                    muted ? 'bg-red-600 border-red-600' : 'border-gray-600 text-gray-400 hover:border-white hover:text-white'
+                  }`}
+                >
+                  {muted ? 'UNMUTE' : 'MUTE'} {group.toUpperCase()}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MixerPanel;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { getGenre, listGenres } from '../genres';
+import { parseSessionFile, serializeSessionFile, Session } from '../services/session';
+import { KEY_NAMES, SCALES } from '../services/scales';
+import { downloadBlob, getTimestamp } from '../services/fileUtils';
+
+interface SetlistProps {
+  sessions: Session[];
+  onChange: (sessions: Session[]) => void;
+  onPlay: (session: Session) => void;
+}
+
+const BUTTON = "px-4 py-2 rounded-full border border-gray-600 text-gray-400 hover:border-white hover:text-white transition-all cursor-pointer";
+
+const isKnownGenre = (id: string) => listGenres().some(genre => genre.id === id);
+
+const describe = ({ genre, key, transport }: Session) => [
+  isKnownGenre(genre) ? getGenre(genre).menu.title : `${genre} (MISSING)`,
+  `${KEY_NAMES[key.tonic]} ${key.scale === 'changes' ? '' : SCALES[key.scale].label}`.trim(),
+  `${Math.round(transport.bpm)} BPM`,
+].join(' · ').toUpperCase();
+
+const exportSessions = (sessions: Session[], name: string) =>
+  downloadBlob(new Blob([serializeSessionFile(sessions)], { type: 'application/json' }), `${name}_${getTimestamp()}.json`);
+
+// Sessions prepared ahead of a show, played from the menu in order.
+// Imported files are appended, so setlists can be assembled from several.
+const Setlist: React.FC<SetlistProps> = ({ sessions, onChange, onPlay }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const move = (index: number, by: number) => {
+    const next = [...sessions];
+    const [session] = next.splice(index, 1);
+    next.splice(index + by, 0, session);
+    onChange(next);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseSessionFile(await file.text());
+      const unknown = imported.find(session => !isKnownGenre(session.genre));
+      if (unknown) throw new Error(`Session "${unknown.name}" uses unknown genre "${unknown.genre}"`);
+      onChange([...sessions, ...imported]);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="mt-6 w-full max-w-3xl flex flex-col items-center gap-2 text-xs font-bold tracking-widest">
+      <div className="w-full max-h-48 overflow-y-auto flex flex-col gap-2">
+        {sessions.map((session, i) => (
+          <div key={i} className="w-full flex items-center gap-2 px-4 py-2 rounded-full border border-gray-700">
+            <span className="w-6 text-gray-600">{i + 1}</span>
+            <span className="flex-1 text-left truncate">
+              {session.name || 'UNTITLED'} <span className="text-gray-500 font-normal">{describe(session)}</span>
+            </span>
+            <button
+              onClick={() => onPlay(session)}
+              disabled={!isKnownGenre(session.genre)}
+              className="px-3 py-1 rounded-full border border-white hover:bg-white hover:text-black transition-all disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-white"
+            >
+              ▶ PLAY
+            </button>
+            <button onClick={() => move(i, -1)} disabled={i === 0} className="px-1 text-gray-500 hover:text-white disabled:opacity-30">↑</button>
+            <button onClick={() => move(i, 1)} disabled={i === sessions.length - 1} className="px-1 text-gray-500 hover:text-white disabled:opacity-30">↓</button>
+            <button onClick={() => exportSessions([session], session.name.replace(/\W+/g, '_') || 'Session')} className="px-1 text-gray-500 hover:text-white">⤓</button>
+            <button onClick={() => onChange(sessions.filter((_, j) => j !== i))} className="px-1 text-gray-500 hover:text-red-400">✕</button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {sessions.length > 0 && <button onClick={() => exportSessions(sessions, 'Setlist')} className={BUTTON}>EXPORT SETLIST</button>}
+        <label className={BUTTON}>
+          IMPORT SESSIONS
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </label>
+      </div>
+      {error && <p className="text-red-400 font-normal">{error}</p>}
+    </div>
+  );
+};
+
+export default Setlist;
@@ -0,0 +1,148 @@
+import * as Tone from 'tone';
+import { GenreDefinition } from './types';
+
+export const electronicGenre: GenreDefinition = {
+  id: 'ELECTRONIC',
+  menu: {
+    title: 'ELECTRONIC',
+    subtitle: 'High Energy Synth & Beats',
+    recordingName: 'Cyber_Bass_Overload',
+    theme: {
+      border: 'border-green-500/30 hover:border-green-400',
+      overlay: 'bg-green-900/20 group-hover:bg-green-900/40',
+      title: 'text-green-500',
+      subtitle: 'text-green-200',
+    },
+  },
+  transport: { bpm: 135, swing: 0 }, // Faster BPM for Electronic
+  scales: {
+    right: ['E4', 'G4', 'A4', 'B4', 'D5', 'E5', 'G5', 'A5', 'B5', 'D6', 'E6'],
+    left: ['E3', 'G3', 'A3', 'B3', 'D4', 'E4'],
+    bass: ['E2', 'E2', 'G2', 'E2', 'A2', 'E2', 'B2', 'D2'],
+  },
+  // i - VI - VII in E minor, scales kept diatonic to the key
+  progression: ['Em', 'Em', 'Cmaj7:lydian', 'D:mixolydian'],
+  key: 'E',
+  visualMode: 'neural',
+  drums: {
+    intro: {
+      name: 'Build In',
+      tracks: {
+        kick:  'X...X...X...X...',
+        hihat: '..x...x...x...x.',
+      },
+    },
+    grooves: [
+      {
+        name: 'Drive',
+        tracks: {
+          kick:  'X.......X.X.....',
+          snare: '....X.......X...',
+          hihat: 'X.x.X.x.X.x.X.x.',
+        },
+      },
+      {
+        name: 'Four on the Floor',
+        tracks: {
+          kick:    'X...X...X...X...',
+          snare:   '....X.......X...',
+          hihat:   'x.o.x.o.x.o.x.o.',
+          openHat: '..x...x...x...x.',
+        },
+      },
+    ],
+    fills: [
+      {
+        name: 'Snare Roll',
+        tracks: {
+          kick:  'X.......X.......',
+          snare: 'o.o.x.x.xxxxXXXX',
+        },
+      },
+      {
+        name: 'Kick Stutter',
+        tracks: {
+          kick:  'X.X.X.X.XXXXX.X.',
+          snare: '....X.......X..X',
+          hihat: 'X.x.X.x.........',
+        },
+      },
+    ],
+    fillEvery: 8,
+    ending: {
+      name: 'Drop Out',
+      tracks: {
+        kick:    'X...............',
+        openHat: 'X...............',
+      },
+    },
+  },
+
+  createInstruments: ({ channels }) => {
+    // Right: Hard Lead (Distorted MonoSynth)
+    const rightSynth = new Tone.MonoSynth({
+      oscillator: { type: "square" },
+      envelope: { attack: 0.01, decay: 0.2, sustain: 0.8, release: 0.1 },
+      volume: -6
+    });
+    const leadDist = new Tone.Distortion(0.6);
+    const rightPanner = new Tone.Panner(0);
+    rightSynth.chain(leadDist, rightPanner, channels.lead);
+
+    // Left: Super Saw Chords
+    const leftSynth = new Tone.PolySynth(Tone.Synth, {
+      oscillator: { type: "sawtooth" },
+      envelope: { attack: 0.01, decay: 0.1, sustain: 0.5, release: 0.5 },
+      volume: -8
+    });
+
+    // Chain: Synth -> Distortion -> DJ Filter (LowPass) -> Panner -> Reverb
+    const dist = new Tone.Distortion(0.4);
+    const leftFilter = new Tone.Filter(20000, "lowpass"); // Starts open
+    const leftPanner = new Tone.Panner(0);
+    leftSynth.chain(dist, leftFilter, leftPanner, channels.rhythm);
+
+    // Bass
+    const bassSynth = new Tone.MonoSynth({
+      oscillator: { type: "sawtooth" },
+      envelope: { attack: 0.01, decay: 0.2, sustain: 0.6, release: 0.2 },
+      filterEnvelope: { baseFrequency: 200, octaves: 4, attack: 0.01 },
+      volume: -2
+    }).connect(channels.bass);
+
+    // Drums
+    const drumHiHat = new Tone.MetalSynth({ volume: -5, resonance: 3000 }).connect(channels.hats);
+    const drumSnare = new Tone.NoiseSynth({ volume: -2, envelope: { decay: 0.2 } }).connect(channels.snare);
+    const drumKick = new Tone.MembraneSynth({
+        volume: 0,
+        pitchDecay: 0.05,
+        octaves: 8
+    }).connect(channels.kick);
+
+    return {
+      rightSynth, leftSynth, bassSynth,
+      drumKick, drumSnare, drumHiHat, drumRide: null,
+      leftFilter, rightFilter: null,
+      leftPanner, rightPanner,
+      nodes: [leadDist, dist],
+      params: {
+        'leadDist.wet': { label: 'Lead distortion mix', param: leadDist.wet, min: 0, max: 1 },
+      },
+    };
+  },
+
+  createBacking: () => ({ step, time, scales, playBass, emitNote }) => {
+    if (step % 2 === 0) {
+        const bassNote = scales.bass[Math.floor(Math.random()*scales.bass.length)];
+        playBass(bassNote, "8n", time);
+        emitNote('BASS', time);
+    }
+  },
+
+  mappings: [
+    // Squeeze drops the lead up to an octave
+    { hand: 'right', source: 'squeeze', target: 'rightSynth.detune', min: 0, max: -1200, curve: 'linear', invert: false, smoothing: 0 },
+    // DJ filter: open hand = open filter, fist = closed
+    { hand: 'left', source: 'squeeze', target: 'leftFilter.frequency', min: 200, max: 8200, curve: 'linear', invert: true, smoothing: 0.5 },
+  ],
+};
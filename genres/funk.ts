@@ -0,0 +1,210 @@
+import * as Tone from 'tone';
+import { GenreDefinition } from './types';
+import { midiToNote, noteToMidi, rootAtOrAbove } from '../services/harmony';
+
+export const funkGenre: GenreDefinition = {
+  id: 'FUNK',
+  menu: {
+    title: 'FUNK',
+    subtitle: 'Groove & Wah-Wah',
+    recordingName: 'Neon_Vortex_Dimension',
+    theme: {
+      border: 'border-purple-500/30 hover:border-purple-400',
+      overlay: 'bg-purple-900/20 group-hover:bg-purple-900/40',
+      title: 'text-purple-400',
+      subtitle: 'text-purple-200',
+    },
+  },
+  transport: { bpm: 112, swing: 0.1 }, // Classic P-Funk tempo, subtle 16th swing
+  // Funk: E Mixolydian / Dorian hybrid for that classic vibe
+  scales: {
+    right: ['E4', 'G4', 'A4', 'B4', 'D5', 'E5', 'G5', 'A5', 'B5', 'D6'],
+    left: ['E3', 'G3', 'A3', 'B3', 'D4', 'E4'], // Rhythm Guitar chords
+    bass: ['E2', 'B2', 'D3', 'E3'], // Root, fifth, flat seven, octave
+  },
+  // One-chord vamp that moves to the IV and a V turnaround
+  progression: ['E7#9', 'E7#9', 'E7#9', 'E7#9', 'A9', 'A9', 'E7#9', 'B7'],
+  key: 'E',
+  visualMode: 'vortex',
+  drums: {
+    intro: {
+      name: 'Count In',
+      tracks: {
+        hihat: 'X...X...X...X.x.',
+        snare: '............o.oo',
+      },
+    },
+    grooves: [
+      {
+        // Kick: 1 and... and 3... / Snare: backbeat on 2 and 4 + ghost notes
+        name: 'Pocket',
+        tracks: {
+          kick:    'X......x..x.....',
+          snare:   '....X.......X..o',
+          hihat:   'Xoxoxoxoxoxoxoxo',
+          openHat: [{ step: 14, velocity: 0.8, probability: 0.3 }], // Open hat on the 'and' of 4, occasionally
+        },
+      },
+      {
+        name: 'Broken',
+        tracks: {
+          kick:  'X.x....x..X..x..',
+          snare: '..o.X..o.o..X.o.',
+          hihat: 'XoxoxoxoXoxoxoxo',
+        },
+      },
+    ],
+    fills: [
+      {
+        name: 'Ghost Run',
+        tracks: {
+          kick:  'X......x..x.....',
+          snare: '....X..ooxoxXxXX',
+          hihat: 'Xoxoxoxo........',
+        },
+      },
+      {
+        name: 'Hat Choke',
+        tracks: {
+          kick:    'X..x..x...x.....',
+          snare:   '....X.......X.X.',
+          hihat:   'Xoxoxoxoxoxo....',
+          openHat: '............x.x.',
+        },
+      },
+    ],
+    fillEvery: 4,
+    ending: {
+      name: 'Stab',
+      tracks: {
+        kick:    'X.....X.........',
+        snare:   'X.....X.........',
+        openHat: '......X.........',
+      },
+    },
+  },
+
+  createInstruments: ({ channels }) => {
+    // Right: Brass Section (PolySynth with MonoSynth voices for filter envs)
+    // Simulating Trumpets/Trombones stabs
+    const rightSynth = new Tone.PolySynth(Tone.MonoSynth, {
+      oscillator: { type: "sawtooth" },
+      envelope: {
+        attack: 0.02,
+        decay: 0.2,
+        sustain: 0.7,
+        release: 0.4
+      },
+      filter: {
+        type: "lowpass",
+        Q: 2.5, // Brassy resonance
+        rolloff: -24
+      },
+      filterEnvelope: {
+        attack: 0.05, // The "Blare" opening
+        decay: 0.2,
+        sustain: 0.5,
+        baseFrequency: 300,
+        octaves: 4 // Opens up to bright ~4800Hz
+      },
+      volume: -5
+    });
+
+    // We don't need vibrato for brass fall, we need detune
+    const rightPanner = new Tone.Panner(0);
+    rightSynth.chain(rightPanner, channels.lead);
+
+    // Left: Wah-Wah Rhythm Guitar
+    const leftSynth = new Tone.PolySynth(Tone.Synth, {
+      oscillator: { type: "square" }, // Square wave is great for funky stabs
+      envelope: { attack: 0.01, decay: 0.1, sustain: 0.1, release: 0.1 },
+      volume: -4
+    });
+
+    // The "Manual Wah" Filter
+    // High Q for that "Quack" sound
+    const leftFilter = new Tone.Filter({ frequency: 2000, type: "lowpass", Q: 8 });
+    const leftPanner = new Tone.Panner(0);
+    leftSynth.chain(leftFilter, leftPanner, channels.rhythm);
+
+    // Bass: Slap Bass (Physics modeled)
+    const bassSynth = new Tone.MonoSynth({
+      oscillator: { type: "square" }, // Square gives hollow slap tone
+      envelope: {
+          attack: 0.01, // Snap!
+          decay: 0.2,   // Fast decay
+          sustain: 0,   // Staccato
+          release: 0.1
+      },
+      filterEnvelope: {
+          attack: 0.005,
+          decay: 0.1,
+          sustain: 0,
+          baseFrequency: 100,
+          octaves: 3.5, // Huge envelope modulation for "POP"
+          exponent: 2
+      },
+      filter: { Q: 6, type: "lowpass" }, // Resonant pop
+      volume: 0
+    }).connect(channels.bass);
+
+    // Drums: Tight Funk Kit
+    const drumHiHat = new Tone.MetalSynth({
+        volume: -8,
+        harmonicity: 8,
+        resonance: 4000,
+        envelope: { attack: 0.001, decay: 0.05, release: 0.01 } // Super tight hats
+    }).connect(channels.hats);
+
+    const drumSnare = new Tone.NoiseSynth({
+        volume: -2,
+        envelope: { attack: 0.001, decay: 0.15, sustain: 0 } // Cracking snare
+    }).connect(channels.snare);
+
+    const drumKick = new Tone.MembraneSynth({
+        volume: 0,
+        pitchDecay: 0.01, // Tight punch
+        octaves: 6,
+        envelope: { attack: 0.001, decay: 0.2, sustain: 0 }
+    }).connect(channels.kick);
+
+    return {
+      rightSynth, leftSynth, bassSynth,
+      drumKick, drumSnare, drumHiHat, drumRide: null,
+      leftFilter, rightFilter: null,
+      leftPanner, rightPanner,
+      nodes: [],
+    };
+  },
+
+  // --- FUNK GROOVE (16th Note Syncopation) ---
+  createBacking: () => ({ step, time, chord, playBass, emitNote }) => {
+    // Bass: "The One" is strictly adhered to, followed by syncopation
+    // Shape is root / fifth / flat seven / octave of the current chord
+    const rootMidi = rootAtOrAbove(chord, noteToMidi('E2'));
+    const note = (interval: number) => midiToNote(rootMidi + interval, chord.preferFlats);
+    const [root, fifth, flatSeven, octave] = [note(0), note(7), note(10), note(12)];
+
+    // Slap Bass Pattern
+    if (step === 0) playBass(root, "16n", time); // THE ONE
+    else if (step === 3) playBass(root, "16n", time, 0.7); // Ghost
+    else if (step === 6) playBass(octave, "16n", time, 0.9); // Octave Pop
+    else if (step === 8) playBass(flatSeven, "16n", time, 0.8);
+    else if (step === 11) playBass(root, "16n", time, 0.6); // Ghost
+    else if (step === 14) playBass(fifth, "16n", time, 0.8); // Turnaround
+
+    if (step === 0 || step === 6 || step === 14) emitNote('BASS', time);
+  },
+
+  mappings: [
+    // Funk Brass Section (Right Hand)
+    // Gesture: "The Fall" / "Doit"
+    // Hand Open (0.0) -> Standard Pitch
+    // Hand Closed (1.0) -> Drop Pitch (-500 cents / 5 semitones)
+    { hand: 'right', source: 'squeeze', target: 'rightSynth.detune', min: 0, max: -500, curve: 'linear', invert: false, smoothing: 0 },
+    // Funk Manual Wah-Wah
+    // Hand Open (0.0 squeeze) -> High Freq (Wah!)
+    // Hand Closed (1.0 squeeze) -> Low Freq (Ooh...)
+    { hand: 'left', source: 'squeeze', target: 'leftFilter.frequency', min: 300, max: 3500, curve: 'linear', invert: true, smoothing: 0 },
+  ],
+};
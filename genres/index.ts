@@ -0,0 +1,15 @@
+import { registerGenre } from './registry';
+import { jazzGenre } from './jazz';
+import { electronicGenre } from './electronic';
+import { funkGenre } from './funk';
+
+// Built-in genres. New genres ship as their own module and register here.
+registerGenre(jazzGenre);
+registerGenre(electronicGenre);
+registerGenre(funkGenre);
+
+export { registerGenre, getGenre, listGenres } from './registry';
+export { triggerNote, triggerDrum, applyDynamics, patchRack } from './playback';
+export { rackTargets } from './targets';
+export type { MappingTarget } from './targets';
+export type * from './types';
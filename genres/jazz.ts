@@ -0,0 +1,202 @@
+import * as Tone from 'tone';
+import { GenreDefinition } from './types';
+import { midiToNote, rangeOf } from '../services/harmony';
+import { WalkingBassGenerator } from '../services/walkingBass';
+
+export const jazzGenre: GenreDefinition = {
+  id: 'JAZZ',
+  menu: {
+    title: 'JAZZ',
+    subtitle: 'Swing & Smooth',
+    recordingName: 'Jazz_Sax_vs_Trumpet',
+    theme: {
+      border: 'border-cyan-500/30 hover:border-cyan-400',
+      overlay: 'bg-cyan-900/20 group-hover:bg-cyan-900/40',
+      title: 'text-cyan-400',
+      subtitle: 'text-cyan-200',
+    },
+  },
+  transport: { bpm: 120, swing: 0.6 },
+  scales: {
+    right: ['C5', 'D5', 'Eb5', 'F5', 'G5', 'A5', 'Bb5', 'C6', 'Eb6', 'F6'],
+    left: ['C3', 'Eb3', 'F3', 'G3', 'Bb3', 'C4', 'Eb4', 'F4', 'G4', 'Bb4', 'C5'],
+    bass: ['F1', 'C2', 'Eb2', 'F2', 'Gb2', 'G2', 'Bb2', 'C3', 'Eb3'], // Walking range
+  },
+  // C minor blues with a ii-V turnaround
+  progression: [
+    'Cm7', 'Fm7', 'Cm7', 'Cm7',
+    'Fm7', 'Fm7', 'Cm7', 'Cm7',
+    'Dm7b5', 'G7alt', 'Cm7', 'G7alt',
+  ],
+  key: 'C',
+  visualMode: 'liquid',
+  // Swung 8ths come from the Transport swing, so the grids are written straight
+  drums: {
+    intro: {
+      name: 'Ride In',
+      tracks: {
+        ride:  'x...X.o.x...X.o.',
+        hihat: '....x.......x...',
+      },
+    },
+    grooves: [
+      {
+        // "Ding, ding-a ding" on the ride, hi-hat foot on 2 and 4, feathered kick
+        name: 'Swing',
+        tracks: {
+          ride:  'x...X.o.x...X.o.',
+          hihat: '....x.......x...',
+          kick:  'o...o...o...o...',
+          snare: [ // Loose comping on the off-beats
+            { step: 6, velocity: 0.3, probability: 0.25 },
+            { step: 10, velocity: 0.25, probability: 0.2 },
+            { step: 14, velocity: 0.35, probability: 0.3 },
+          ],
+        },
+      },
+      {
+        name: 'Two Feel',
+        tracks: {
+          ride:  'x...X...x...X...',
+          hihat: '....x.......x...',
+          kick:  'x.......x.......',
+        },
+      },
+    ],
+    fills: [
+      {
+        name: 'Comp Kicks',
+        tracks: {
+          ride:  'x...X.o.x...X...',
+          hihat: '....x.......x...',
+          snare: '..o...o...x.o.x.',
+          kick:  'o...o.....o...x.',
+        },
+      },
+      {
+        name: 'Snare Break',
+        tracks: {
+          ride:  'x...X...........',
+          snare: '......o.x.o.x.X.',
+          kick:  'o...o...........',
+        },
+      },
+    ],
+    fillEvery: 4,
+    ending: {
+      name: 'Button',
+      tracks: {
+        ride:  'X.............X.',
+        snare: '..............X.',
+        kick:  'o.............X.',
+      },
+    },
+  },
+
+  createInstruments: ({ channels }) => {
+    // Right: Jazz Electric Piano (Rhodes Style)
+    const rightSynth = new Tone.PolySynth(Tone.Synth, {
+      oscillator: { type: "pulse", width: 0.5 },
+      envelope: {
+          attack: 0.02,
+          decay: 0.4,
+          sustain: 0.2,
+          release: 1.5
+      },
+      volume: -4
+    });
+
+    const rightFilter = new Tone.Filter(1200, "lowpass");
+    const tremolo = new Tone.Tremolo({ frequency: 6, depth: 0.5 }).start();
+
+    const rightPanner = new Tone.Panner(0);
+
+    rightSynth.chain(rightFilter, tremolo, rightPanner, channels.lead);
+
+    // Left: Bright Sax (Sawtooth MonoSynth)
+    const leftSynth = new Tone.MonoSynth({
+      oscillator: { type: "sawtooth" },
+      envelope: { attack: 0.05, decay: 0.2, sustain: 1.0, release: 0.8 },
+      filter: { Q: 3, type: "lowpass", rolloff: -24 },
+      filterEnvelope: { attack: 0.05, decay: 0.2, sustain: 0.5, release: 0.8, baseFrequency: 800, octaves: 3.5 },
+      volume: -4
+    });
+
+    const dist = new Tone.Distortion(0.15);
+    const leftFilter = new Tone.Filter({ frequency: 2000, type: "lowpass", Q: 1 });
+    const leftPanner = new Tone.Panner(0);
+    leftSynth.chain(dist, leftFilter, leftPanner, channels.rhythm);
+
+    // Bass
+    const bassSynth = new Tone.MonoSynth({
+      oscillator: { type: "triangle" },
+      envelope: { attack: 0.05, decay: 0.3, sustain: 0.4, release: 1.5 },
+      filterEnvelope: { attack: 0.05, decay: 0.2, sustain: 0.5, release: 0.8, baseFrequency: 100, octaves: 2 },
+      volume: 2
+    }).connect(channels.bass);
+
+    // Drums: Brushes & Ride
+    const drumRide = new Tone.MetalSynth({
+        volume: -6,
+        harmonicity: 5.1,
+        modulationIndex: 32,
+        envelope: { attack: 0.001, decay: 0.6, release: 0.2 } // Lets the ride wash
+    }).connect(channels.hats);
+
+    const drumHiHat = new Tone.MetalSynth({
+        volume: -16,
+        harmonicity: 5.1,
+        modulationIndex: 32,
+        envelope: { attack: 0.001, decay: 0.05, release: 0.01 } // Foot "chick"
+    }).connect(channels.hats);
+
+    const drumSnare = new Tone.NoiseSynth({
+        volume: -10,
+        noise: { type: "pink" },
+        envelope: { attack: 0.01, decay: 0.25, sustain: 0 } // Soft brush swish
+    }).connect(channels.snare);
+
+    // Feathered kick: felt more than heard
+    const drumKick = new Tone.MembraneSynth({
+        volume: -10,
+        pitchDecay: 0.02,
+        octaves: 4,
+        envelope: { attack: 0.001, decay: 0.3, sustain: 0 }
+    }).connect(channels.kick);
+
+    return {
+      rightSynth, leftSynth, bassSynth,
+      drumKick, drumSnare, drumHiHat, drumRide,
+      leftFilter, rightFilter,
+      leftPanner, rightPanner,
+      nodes: [tremolo, dist],
+      params: {
+        'tremolo.depth': { label: 'Rhodes tremolo depth', param: tremolo.depth, min: 0, max: 1 },
+      },
+    };
+  },
+
+  createBacking: (seed) => {
+    const walkingBass = new WalkingBassGenerator({ range: rangeOf(jazzGenre.scales.bass), seed });
+    let line: string[] = [];
+
+    return ({ step, time, chord, nextChord, playBass, emitNote }) => {
+      // Plan the whole bar on the downbeat so beat 4 can lead into the next chord
+      if (step === 0) {
+          line = walkingBass.nextBar(chord, nextChord).map(midi => midiToNote(midi, chord.preferFlats));
+      }
+      if (step % 4 === 0) {
+          playBass(line[step / 4], "4n", time);
+          emitNote('BASS', time);
+      }
+    };
+  },
+
+  mappings: [
+    // Squeeze bends the Rhodes slightly flat
+    { hand: 'right', source: 'squeeze', target: 'rightSynth.detune', min: 0, max: -50, curve: 'linear', invert: false, smoothing: 0 },
+    // Squeeze bends the sax down; x opens its tone
+    { hand: 'left', source: 'squeeze', target: 'leftSynth.detune', min: 0, max: -200, curve: 'linear', invert: false, smoothing: 0.5 },
+    { hand: 'left', source: 'x', target: 'leftFilter.frequency', min: 500, max: 4000, curve: 'linear', invert: false, smoothing: 0.5 },
+  ],
+};
@@ -0,0 +1,84 @@
+import * as Tone from 'tone';
+import { NoteDynamics, NoteType } from '../types';
+import { DrumVoice } from '../services/drumPatterns';
+import { InstrumentRack, RackPatch } from './types';
+
+// How each role and drum voice is played on a rack. Shared by the live engine
+// and the offline stem renderer so both sound the same.
+
+export function triggerNote(rack: InstrumentRack, role: NoteType, note: string, duration: Tone.Unit.Time, time: number, velocity = 1) {
+  switch (role) {
+    case 'LEAD':
+      rack.rightSynth.triggerAttackRelease(note, duration, time, velocity);
+      break;
+    case 'RHYTHM':
+      rack.leftSynth.triggerAttackRelease(note, duration, time, velocity);
+      break;
+    case 'BASS':
+      rack.bassSynth?.triggerAttackRelease(note, duration, time, velocity);
+      break;
+  }
+}
+
+// Layers a patch over the rack's voices; call before they first play, so
+// dynamics pick up patched filter envelopes as their base
+export function patchRack(rack: InstrumentRack, patch: RackPatch) {
+  for (const voice of ['rightSynth', 'leftSynth', 'bassSynth'] as const) {
+    const options = patch[voice];
+    if (!options) continue;
+    try {
+      rack[voice]?.set(options);
+    } catch (e) {
+      console.warn(`Could not patch ${voice}`, e);
+    }
+  }
+}
+
+// Genre filter-envelope depths, read the first time a synth is played with dynamics
+const baseFilterOctaves = new WeakMap<object, number>();
+
+// Shapes a hand's next note: pans it and scales the filter envelope (where the
+// synth has one) from 0.4x for a soft touch to 1.6x for a hard strike. Both
+// change as the note starts, so notes scheduled ahead keep their own shape.
+export function applyDynamics(rack: InstrumentRack, role: 'LEAD' | 'RHYTHM', { filterAmount, pan }: Pick<NoteDynamics, 'filterAmount' | 'pan'>, time: number) {
+  const synth = role === 'LEAD' ? rack.rightSynth : rack.leftSynth;
+  const panner = role === 'LEAD' ? rack.rightPanner : rack.leftPanner;
+  panner?.pan.setValueAtTime(pan, time);
+
+  if (!(synth instanceof Tone.MonoSynth) && !(synth instanceof Tone.PolySynth)) return;
+  const envelope = (synth.get() as Partial<Tone.MonoSynthOptions>).filterEnvelope;
+  if (!envelope) return;
+  if (!baseFilterOctaves.has(synth)) baseFilterOctaves.set(synth, envelope.octaves);
+  const octaves = baseFilterOctaves.get(synth)! * (0.4 + 1.2 * filterAmount);
+  // The depth isn't a signal and takes effect when set, so it's set on the
+  // context's clock at `time` (which also runs in offline renders)
+  const { context } = synth;
+  context.setTimeout(() => {
+    if (synth.disposed) return;
+    if (synth instanceof Tone.MonoSynth) synth.filterEnvelope.octaves = octaves;
+    else synth.set({ filterEnvelope: { octaves } } as Partial<Tone.MonoSynthOptions>);
+  }, Math.max(0, time - context.now()));
+}
+
+// Plays one drum hit; returns its length so callers can mirror it as a note
+export function triggerDrum(rack: InstrumentRack, voice: DrumVoice, time: number, velocity: number): Tone.Unit.Time {
+  switch (voice) {
+    case 'kick':
+      rack.drumKick?.triggerAttackRelease("C1", "16n", time, velocity);
+      return "16n";
+    case 'snare': {
+      const duration = velocity < 0.5 ? "32n" : "16n"; // Ghosts are shorter
+      rack.drumSnare?.triggerAttackRelease(duration, time, velocity);
+      return duration;
+    }
+    case 'hihat':
+      rack.drumHiHat?.triggerAttackRelease(200, "32n", time, velocity);
+      return "32n";
+    case 'openHat':
+      rack.drumHiHat?.triggerAttackRelease(200, "8n", time, velocity);
+      return "8n";
+    case 'ride':
+      rack.drumRide?.triggerAttackRelease("C5", "8n", time, velocity);
+      return "8n";
+  }
+}
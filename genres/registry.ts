@@ -0,0 +1,29 @@
+import { GenreDefinition, GenreId } from './types';
+import { DrumSequencer } from '../services/drumPatterns';
+import { pitchClassOf } from '../services/harmony';
+
+const genres = new Map<GenreId, GenreDefinition>();
+
+export function registerGenre(genre: GenreDefinition) {
+  if (genre.progression.length === 0) {
+    throw new Error(`Genre "${genre.id}" needs at least one chord in its progression`);
+  }
+  // Throws on malformed patterns and key names now rather than mid-performance
+  new DrumSequencer(genre.drums);
+  pitchClassOf(genre.key);
+  if (genres.has(genre.id)) {
+    console.warn(`Genre "${genre.id}" is already registered, replacing it.`);
+  }
+  genres.set(genre.id, genre);
+}
+
+export function getGenre(id: GenreId): GenreDefinition {
+  const genre = genres.get(id);
+  if (!genre) throw new Error(`Unknown genre "${id}"`);
+  return genre;
+}
+
+// Menu order follows registration order
+export function listGenres(): GenreDefinition[] {
+  return Array.from(genres.values());
+}
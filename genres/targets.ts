@@ -0,0 +1,51 @@
+import * as Tone from 'tone';
+import { InstrumentRack } from './types';
+
+// A parameter on a rack that a mapping can drive
+export interface MappingTarget {
+  id: string;
+  label: string;
+  min: number; // Sensible range, used by the editor
+  max: number;
+  set: (value: number) => void;
+}
+
+const RAMP = 0.05; // Seconds; hides zipper noise between hand frames
+
+type HandSynth = InstrumentRack['rightSynth'] | InstrumentRack['leftSynth'];
+
+function setDetune(synth: HandSynth, cents: number) {
+  if (synth instanceof Tone.PolySynth) synth.set({ detune: cents });
+  else synth.detune.rampTo(cents, RAMP);
+}
+
+function setVolume(synth: HandSynth, db: number) {
+  synth.volume.rampTo(db, RAMP);
+}
+
+// Every target the rack offers: each hand's synth, filter and panner where
+// the genre has them, plus whatever the genre exposes in `params`
+export function rackTargets(rack: InstrumentRack): MappingTarget[] {
+  const targets: MappingTarget[] = [
+    { id: 'rightSynth.detune', label: 'Lead detune (cents)', min: -1200, max: 1200, set: v => setDetune(rack.rightSynth, v) },
+    { id: 'rightSynth.volume', label: 'Lead volume (dB)', min: -40, max: 6, set: v => setVolume(rack.rightSynth, v) },
+    { id: 'leftSynth.detune', label: 'Rhythm detune (cents)', min: -1200, max: 1200, set: v => setDetune(rack.leftSynth, v) },
+    { id: 'leftSynth.volume', label: 'Rhythm volume (dB)', min: -40, max: 6, set: v => setVolume(rack.leftSynth, v) },
+  ];
+  const { rightFilter, leftFilter, rightPanner, leftPanner } = rack;
+  if (rightFilter) {
+    targets.push({ id: 'rightFilter.frequency', label: 'Lead filter cutoff (Hz)', min: 100, max: 12000, set: v => rightFilter.frequency.rampTo(v, RAMP) });
+    targets.push({ id: 'rightFilter.Q', label: 'Lead filter resonance', min: 0.1, max: 20, set: v => rightFilter.Q.rampTo(v, RAMP) });
+  }
+  if (leftFilter) {
+    targets.push({ id: 'leftFilter.frequency', label: 'Rhythm filter cutoff (Hz)', min: 100, max: 12000, set: v => leftFilter.frequency.rampTo(v, RAMP) });
+    targets.push({ id: 'leftFilter.Q', label: 'Rhythm filter resonance', min: 0.1, max: 20, set: v => leftFilter.Q.rampTo(v, RAMP) });
+  }
+  if (rightPanner) targets.push({ id: 'rightPanner.pan', label: 'Lead pan', min: -1, max: 1, set: v => rightPanner.pan.rampTo(v, RAMP) });
+  if (leftPanner) targets.push({ id: 'leftPanner.pan', label: 'Rhythm pan', min: -1, max: 1, set: v => leftPanner.pan.rampTo(v, RAMP) });
+
+  for (const [id, { label, param, min, max }] of Object.entries(rack.params ?? {})) {
+    targets.push({ id, label, min, max, set: v => param.rampTo(v, RAMP) });
+  }
+  return targets;
+}
@@ -0,0 +1,106 @@
+import * as Tone from 'tone';
+import { ChordInfo, NoteType, VisualMode } from '../types';
+import { DrumArrangementSpec } from '../services/drumPatterns';
+import { ParameterMapping } from '../services/mappings';
+import { MixerChannelId } from '../services/mixer';
+
+export type GenreId = string;
+
+// Mixer channel strips owned by the AudioEngine (see services/mixer.ts).
+// Genres connect each voice's chain into its strip but never dispose them;
+// levels, panning and reverb sends are set on the strips.
+export interface AudioBus {
+  channels: Record<MixerChannelId, Tone.InputNode>;
+}
+
+// Everything a genre builds in `createInstruments`. The engine disposes the
+// whole rack (including `nodes`) when the genre is unloaded.
+export interface InstrumentRack {
+  rightSynth: Tone.Synth | Tone.MonoSynth | Tone.FMSynth | Tone.PolySynth;
+  leftSynth: Tone.MonoSynth | Tone.PolySynth;
+  bassSynth: Tone.MonoSynth | null;
+  drumKick: Tone.MembraneSynth | null;
+  drumSnare: Tone.NoiseSynth | null;
+  drumHiHat: Tone.MetalSynth | null;
+  drumRide: Tone.MetalSynth | null;
+  leftFilter: Tone.Filter | null; // Main left-hand tone control (cutoff / wah)
+  rightFilter: Tone.Filter | null;
+  // Last in each hand's chain, so the engine can place notes in the stereo field
+  leftPanner: Tone.Panner | null;
+  rightPanner: Tone.Panner | null;
+  nodes: Tone.ToneAudioNode[]; // Extra effects in the chains
+  params?: Record<string, ExposedParam>; // Extra mapping targets, keyed by target id
+}
+
+// A genre-specific parameter (e.g. an effect's depth) that mappings may drive
+export interface ExposedParam {
+  label: string;
+  param: Tone.Param<any> | Tone.Signal<any>;
+  min: number;
+  max: number;
+}
+
+export interface BackingStepContext {
+  step: number; // 0-15, 16th note within the bar
+  bar: number;
+  time: number;
+  rack: InstrumentRack;
+  chord: ChordInfo; // Chord of the current bar
+  nextChord: ChordInfo; // Chord of the following bar, for approach notes
+  scales: GenreScales; // Voiced to the current chord
+  // Plays the rack's bass synth (and mirrors it to MIDI); use rather than calling the synth
+  playBass: (note: string, duration: Tone.Unit.Time, time: number, velocity?: number) => void;
+  emitNote: (type: NoteType, time: number) => void;
+}
+
+export type BackingStep = (ctx: BackingStepContext) => void;
+
+// Tone option overrides layered over a genre's voices once they're built,
+// e.g. { oscillator: { type: 'square' }, envelope: { release: 2 } }.
+// Keys a voice doesn't have are ignored.
+export interface RackPatch {
+  rightSynth?: Record<string, unknown>;
+  leftSynth?: Record<string, unknown>;
+  bassSynth?: Record<string, unknown>;
+}
+
+// Pitch pools per role. As written in a genre they set each role's register;
+// the engine re-voices them to the current chord every bar (chord-scale for
+// the hands, chord tones for the bass).
+export interface GenreScales {
+  right: string[];
+  left: string[];
+  bass: string[];
+}
+
+export interface GenreMenu {
+  title: string;
+  subtitle: string;
+  recordingName: string; // Prefix of the saved video filename
+  // Full Tailwind class strings (kept literal so the CDN compiler sees them)
+  theme: {
+    border: string;
+    overlay: string;
+    title: string;
+    subtitle: string;
+  };
+}
+
+export interface GenreDefinition {
+  id: GenreId;
+  menu: GenreMenu;
+  transport: { bpm: number; swing: number };
+  scales: GenreScales;
+  progression: string[]; // One chord symbol per bar, looped (see services/harmony.ts)
+  key: string; // Tonic the progression is written in (e.g. 'C'); the menu can transpose from it
+  visualMode: VisualMode;
+  drums: DrumArrangementSpec; // Step patterns played by the engine (see services/drumPatterns.ts)
+  createInstruments: (bus: AudioBus) => InstrumentRack;
+  // Called on every genre load; the returned function plays one 16th step of
+  // the non-drum backing (bass, pads).
+  // Per-performance state (e.g. a bass line in progress) lives in its closure.
+  createBacking: (seed: number) => BackingStep;
+  // Default hand-to-parameter mappings (see services/mappings.ts); users can
+  // edit them and save their own preset per genre
+  mappings: ParameterMapping[];
+}
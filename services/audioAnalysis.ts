@@ -0,0 +1,179 @@
+import { MidiRole } from './midiOutput';
+
+// =================================================================
+// AUDIO ANALYSIS
+// =================================================================
+
+export type FrequencyBand = 'sub' | 'bass' | 'mids' | 'highs';
+
+// Hz, [low, high)
+export const FREQUENCY_BANDS: Record<FrequencyBand, [number, number]> = {
+  sub: [20, 60],
+  bass: [60, 250],
+  mids: [250, 4000],
+  highs: [4000, 16000],
+};
+
+const BAND_IDS = Object.keys(FREQUENCY_BANDS) as FrequencyBand[];
+const ROLES: MidiRole[] = ['LEAD', 'RHYTHM', 'BASS', 'DRUMS'];
+
+// Every value is 0-1
+export interface AudioFeatures {
+  level: number; // Overall output (linear RMS, like a meter)
+  bands: Record<FrequencyBand, number>;
+  centroid: number; // Spectral centroid from 50 Hz (dark) to 16 kHz (bright), on a log scale
+  onset: number; // Jumps to 1 on a transient, then decays
+  activity: Record<MidiRole, number>; // How loud each role is playing
+}
+
+// Anything in AudioFeatures, by name (roles by their MIDI role id)
+export type AudioFeatureId = 'level' | FrequencyBand | 'centroid' | 'onset' | MidiRole;
+
+export const createAudioFeatures = (): AudioFeatures => ({
+  level: 0,
+  bands: { sub: 0, bass: 0, mids: 0, highs: 0 },
+  centroid: 0,
+  onset: 0,
+  activity: { LEAD: 0, RHYTHM: 0, BASS: 0, DRUMS: 0 },
+});
+
+export function readFeature(features: AudioFeatures, id: AudioFeatureId): number {
+  switch (id) {
+    case 'level': return features.level;
+    case 'centroid': return features.centroid;
+    case 'onset': return features.onset;
+    case 'sub': case 'bass': case 'mids': case 'highs': return features.bands[id];
+    default: return features.activity[id];
+  }
+}
+
+export interface AudioAnalysisOptions {
+  floorDb: number; // Band and role levels map [floorDb, ceilingDb] onto 0-1
+  ceilingDb: number;
+  attack: number; // Seconds; how fast values rise...
+  release: number; // ...and fall
+  onsetThreshold: number; // Spectral flux this many times its running average is a transient...
+  onsetMinFlux: number; // ...if it is at least this large (ignores noise in quiet passages)
+  onsetGap: number; // Seconds between transients at the least
+  onsetDecay: number; // Seconds for `onset` to fall back from 1
+}
+
+const DEFAULT_OPTIONS: AudioAnalysisOptions = {
+  floorDb: -80,
+  ceilingDb: -20,
+  attack: 0.02,
+  release: 0.25,
+  onsetThreshold: 1.8,
+  onsetMinFlux: 0.02,
+  onsetGap: 0.1,
+  onsetDecay: 0.15,
+};
+
+const FLUX_AVERAGE_SECONDS = 0.5;
+const CENTROID_LOW_HZ = 50;
+const CENTROID_HIGH_HZ = 16000;
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Turns the output spectrum (and each role's level) into features the visuals
+// can bind to. Runs once per animation frame, so everything it needs is
+// allocated up front and `features` is updated in place.
+export class AudioAnalysis {
+  public readonly features = createAudioFeatures();
+  private options: AudioAnalysisOptions;
+  private binHz: number;
+  private bandBins: Record<FrequencyBand, [number, number]>;
+  private magnitudes: Float32Array;
+  private fluxAverage = 0;
+  private lastOnset = -Infinity;
+  private lastTime: number | null = null;
+
+  // `binCount` is the analyser's frequencyBinCount (half its FFT size)
+  constructor(binCount: number, sampleRate: number, options: Partial<AudioAnalysisOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.binHz = sampleRate / 2 / binCount;
+    this.magnitudes = new Float32Array(binCount);
+    const bin = (hz: number) => Math.max(1, Math.min(binCount, Math.round(hz / this.binHz)));
+    this.bandBins = {} as Record<FrequencyBand, [number, number]>;
+    for (const band of BAND_IDS) {
+      const [low, high] = FREQUENCY_BANDS[band];
+      this.bandBins[band] = [bin(low), Math.max(bin(low) + 1, bin(high))];
+    }
+  }
+
+  // `spectrum`: dB per bin, as from AnalyserNode.getFloatFrequencyData.
+  // `level` and `activity`: linear RMS. `time` in ms.
+  public update(spectrum: Float32Array, level: number, activity: Record<MidiRole, number>, time: number): AudioFeatures {
+    const { floorDb, ceilingDb, onsetThreshold, onsetMinFlux, onsetGap, onsetDecay } = this.options;
+    const dt = this.lastTime === null ? 0 : Math.max(0, (time - this.lastTime) / 1000);
+    this.lastTime = time;
+    const features = this.features;
+
+    // One pass for magnitudes, spectral flux (summed rises) and the centroid
+    let flux = 0, weighted = 0, total = 0;
+    for (let i = 1; i < this.magnitudes.length; i++) {
+      const db = spectrum[i];
+      const magnitude = db > -200 ? Math.pow(10, db / 20) : 0;
+      const rise = magnitude - this.magnitudes[i];
+      if (rise > 0) flux += rise;
+      this.magnitudes[i] = magnitude;
+      weighted += i * magnitude;
+      total += magnitude;
+    }
+
+    // Index loops and no destructuring below: nothing is allocated per frame
+    for (let b = 0; b < BAND_IDS.length; b++) {
+      const band = BAND_IDS[b];
+      const from = this.bandBins[band][0], to = this.bandBins[band][1];
+      let power = 0;
+      for (let i = from; i < to; i++) power += this.magnitudes[i] * this.magnitudes[i];
+      const db = 10 * Math.log10(power / (to - from) || 1e-12);
+      features.bands[band] = this.smooth(features.bands[band], clamp01((db - floorDb) / (ceilingDb - floorDb)), dt);
+    }
+
+    const low = CENTROID_LOW_HZ, high = CENTROID_HIGH_HZ;
+    const centroidHz = total > 0 ? (weighted / total) * this.binHz : low;
+    features.centroid = this.smooth(features.centroid, clamp01(Math.log(Math.max(low, centroidHz) / low) / Math.log(high / low)), dt);
+
+    // A transient is a burst of flux well above its recent average
+    const isOnset = dt > 0 && flux > onsetMinFlux && flux > this.fluxAverage * onsetThreshold && time - this.lastOnset > onsetGap * 1000;
+    this.fluxAverage += (flux - this.fluxAverage) * (dt > 0 ? 1 - Math.exp(-dt / FLUX_AVERAGE_SECONDS) : 1);
+    if (isOnset) this.lastOnset = time;
+    features.onset = isOnset ? 1 : features.onset * Math.exp(-dt / onsetDecay);
+
+    features.level = this.smooth(features.level, clamp01(level), dt);
+    for (let r = 0; r < ROLES.length; r++) {
+      const role = ROLES[r];
+      const db = 20 * Math.log10(activity[role] || 1e-6);
+      features.activity[role] = this.smooth(features.activity[role], clamp01((db - floorDb) / (ceilingDb - floorDb)), dt);
+    }
+    return features;
+  }
+
+  // Moves toward `target` with the attack or release time constant
+  private smooth(current: number, target: number, dt: number): number {
+    if (dt <= 0) return target;
+    const tau = target > current ? this.options.attack : this.options.release;
+    return current + (target - current) * (1 - Math.exp(-dt / tau));
+  }
+}
+
+// =================================================================
+// LEVELS
+// =================================================================
+
+// RMS of whatever feeds `analyser`, read into a reused buffer
+export class LevelProbe {
+  private buffer: Float32Array;
+
+  constructor(private analyser: AnalyserNode) {
+    this.buffer = new Float32Array(analyser.fftSize);
+  }
+
+  public read(): number {
+    this.analyser.getFloatTimeDomainData(this.buffer);
+    let sum = 0;
+    for (let i = 0; i < this.buffer.length; i++) sum += this.buffer[i] * this.buffer[i];
+    return Math.sqrt(sum / this.buffer.length);
+  }
+}
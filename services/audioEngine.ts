@@ -1,47 +1,102 @@
 import * as Tone from 'tone';
-import { BeatCallback, NoteCallback, GameGenre } from '../types';
-
-// --- SCALES ---
-const JAZZ_SCALE_RIGHT = ['C5', 'D5', 'Eb5', 'F5', 'G5', 'A5', 'Bb5', 'C6', 'Eb6', 'F6'];
-const JAZZ_SCALE_LEFT = ['C3', 'Eb3', 'F3', 'G3', 'Bb3', 'C4', 'Eb4', 'F4', 'G4', 'Bb4', 'C5'];
-const JAZZ_BASS = ['C2', 'Eb2', 'F2', 'Gb2', 'G2', 'Bb2', 'C3'];
-
-const ELECTRONIC_SCALE_RIGHT = ['E4', 'G4', 'A4', 'B4', 'D5', 'E5', 'G5', 'A5', 'B5', 'D6', 'E6']; 
-const ELECTRONIC_SCALE_LEFT = ['E3', 'G3', 'A3', 'B3', 'D4', 'E4']; 
-const ELECTRONIC_BASS = ['E2', 'E2', 'G2', 'E2', 'A2', 'E2', 'B2', 'D2'];
-
-// Funk: E Mixolydian / Dorian hybrid for that classic vibe
-const FUNK_SCALE_RIGHT = ['E4', 'G4', 'A4', 'B4', 'D5', 'E5', 'G5', 'A5', 'B5', 'D6']; 
-const FUNK_SCALE_LEFT = ['E3', 'G3', 'A3', 'B3', 'D4', 'E4']; // Rhythm Guitar chords
-// Bass pattern is procedural in the loop now
+import { BeatCallback, ChordCallback, ChordInfo, EngineAction, HandControls, HandSide, LeadMode, NoteCallback, NoteDynamics, ReverbSettings, SectionCallback, SongSection } from '../types';
+import { applyDynamics, BackingStep, getGenre, GenreDefinition, GenreId, GenreScales, InstrumentRack, MappingTarget, patchRack, RackPatch, rackTargets, triggerDrum, triggerNote } from '../genres';
+import { parseChord, pitchClassOf, PitchRange, rangeOf, voiceChordScale, voiceChordTones, voicePitchSet, midiToNote, noteToMidi } from './harmony';
+import { KeySelection, transposeProgression, voiceScale } from './scales';
+import { DrumSequencer, ScheduledDrumHit } from './drumPatterns';
+import { SONG_SECTIONS } from './songSections';
+import { DEFAULT_MIDI_OPTIONS, MidiOutput, MidiPort, MidiRole } from './midiOutput';
+import { MidiInput, MidiInputPort } from './midiInput';
+import { NoteEvent, NoteRecorder, NoteTake } from './noteRecording';
+import { LoopNote, Looper, LooperState } from './looper';
+import { ThereminFrame, ThereminNote, ThereminVoice } from './theremin';
+import { ParameterMapper, ParameterMapping } from './mappings';
+import { ChannelSettings, DEFAULT_MIX, Mixer, MixerChannelId, MixSettings, MuteGroup } from './mixer';
+import { AudioAnalysis, AudioFeatures, createAudioFeatures, LevelProbe } from './audioAnalysis';
+import { MASTER_LIMITER_DB, MASTER_REVERB } from './masterBus';
+import { seedNoiseBuffers } from './toneRandom';
+
+// How far the snapping theremin is pulled toward scale tones
+const THEREMIN_SNAP = 0.6;
+
+// Tempo changes glide over this long so the groove bends rather than lurches
+const TEMPO_RAMP_SECONDS = 0.5;
+
+// What the mappings read from a hand; depth and speed are neutral without dynamics
+const handControls = (x: number, y: number, squeeze: number, dynamics: NoteDynamics | undefined, pinching: boolean): HandControls =>
+  ({ x, y, z: dynamics?.depth ?? 0.5, squeeze, pinch: pinching ? 1 : 0, speed: dynamics?.speed ?? 0 });
+
+// What a take keeps of a hand note's dynamics, so a re-render shapes it the same way
+const handDynamics = (dynamics: NoteDynamics | undefined) =>
+  dynamics && { pan: dynamics.pan, filterAmount: dynamics.filterAmount };
+
+// ~21 Hz bins at 44.1 kHz: fine enough to split off the sub band
+const SPECTRUM_FFT_SIZE = 2048;
+// What the visuals see before the engine starts
+const SILENCE = createAudioFeatures();
+
+// What a session (see services/session.ts) may change from a genre's defaults
+export interface GenreOverrides {
+  key?: KeySelection; // Transposes the progression; a scale can replace the chord-scales
+  transport?: { bpm: number; swing: number };
+  patch?: RackPatch;
+  reverb?: ReverbSettings;
+}
 
 class AudioEngine {
   // Master
   private limiter: Tone.Limiter | null = null;
-  private meter: Tone.Meter | null = null;
+  private spectrumTap: AnalyserNode | null = null;
+  private spectrum: Float32Array | null = null;
+  private levelProbe: LevelProbe | null = null;
+  private analysis: AudioAnalysis | null = null;
+  private activity: Record<MidiRole, number> = { LEAD: 0, RHYTHM: 0, BASS: 0, DRUMS: 0 };
   private audioDest: MediaStreamAudioDestinationNode | null = null;
   private reverb: Tone.Reverb | null = null;
-  private currentGenre: GameGenre = GameGenre.JAZZ;
-
-  // Instruments
-  private rightSynth: Tone.Synth | Tone.MonoSynth | Tone.FMSynth | Tone.PolySynth | null = null;
-  private leftSynth: Tone.MonoSynth | Tone.PolySynth | null = null;
-  private bassSynth: Tone.MonoSynth | null = null;
-  private drumKick: Tone.MembraneSynth | null = null;
-  private drumSnare: Tone.NoiseSynth | Tone.MetalSynth | null = null;
-  private drumHiHat: Tone.MetalSynth | null = null;
-
-  // Effects
-  private leftEffect: Tone.Effect | Tone.Filter | Tone.AutoWah | null = null; 
-  private rightEffect: Tone.Effect | null = null; 
-  private rightFilter: Tone.Filter | null = null; // For Jazz Piano
-  private leftFilter: Tone.Filter | null = null; // For Electronic Pad / Funk Wah
-  private extraEffect: Tone.Effect | null = null; 
-  private funkVibrato: Tone.Vibrato | null = null; // Specific for Funk Lead
+  private reverbReturn: Tone.Gain | null = null;
+  private reverbSettings: ReverbSettings = MASTER_REVERB;
+  private mixer: Mixer | null = null; // Outlives genres, like the rest of the master section
+  private genre: GenreDefinition | null = null;
+
+  // Instruments & effects built by the active genre
+  private rack: InstrumentRack | null = null;
+  private backing: BackingStep | null = null;
+  private drums: DrumSequencer | null = null;
+  private theremin: ThereminVoice | null = null;
+  private patch: RackPatch = {};
+  private mapper = new ParameterMapper();
+  private targets = new Map<string, MappingTarget>();
+  private leadMode: LeadMode = 'notes';
+
+  // Harmony: the genre's progression, and its scales re-voiced to the current chord
+  private progression: ChordInfo[] = [];
+  private key: KeySelection | null = null;
+  private registers: Record<keyof GenreScales, PitchRange> | null = null;
+  private currentChord: ChordInfo | null = null;
+  private voicedScales: GenreScales | null = null;
+  // Hand pools built from keys held on a MIDI keyboard; override the chord while held
+  private heldNotes: number[] = [];
+  private heldScales: Pick<GenreScales, 'right' | 'left'> | null = null;
+
+  // Arrangement: sections change on bar lines
+  private section: SongSection = 'intro';
+  private pendingSection: SongSection | null = null;
+  private sectionStartBar = 0;
 
   // Callbacks
   private beatCallback: BeatCallback | null = null;
   private noteCallback: NoteCallback | null = null;
+  private chordCallback: ChordCallback | null = null;
+  private sectionCallback: SectionCallback | null = null;
+
+  // External output, and an external controller we can follow
+  private midi: MidiOutput | null = null;
+  private midiIn: MidiInput | null = null;
+  private externalClock = false; // Tempo follows incoming MIDI clock
+  private noteRecorder: NoteRecorder | null = null;
+
+  // Phrase looper
+  private looper = new Looper();
 
   // State
   private isInitialized = false;
@@ -53,46 +108,65 @@ class AudioEngine {
   public async initialize() {
     if (this.isInitialized) return;
     await Tone.start();
+    seedNoiseBuffers(); // Stems re-rendered offline share these buffers
     
-    this.limiter = new Tone.Limiter(-1).toDestination();
-    // Add Meter to measure output level for visuals
-    this.meter = new Tone.Meter();
-    this.limiter.connect(this.meter);
+    this.limiter = new Tone.Limiter(MASTER_LIMITER_DB).toDestination();
+    // Analyse the output for visuals: a spectrum, plus a short window for the level
+    this.spectrumTap = Tone.getContext().createAnalyser();
+    this.spectrumTap.fftSize = SPECTRUM_FFT_SIZE;
+    this.spectrumTap.smoothingTimeConstant = 0.5;
+    this.spectrum = new Float32Array(this.spectrumTap.frequencyBinCount);
+    this.analysis = new AudioAnalysis(this.spectrumTap.frequencyBinCount, Tone.getContext().sampleRate);
+    const levelTap = Tone.getContext().createAnalyser();
+    levelTap.fftSize = 1024;
+    this.levelProbe = new LevelProbe(levelTap);
+    this.limiter.fan(this.spectrumTap, levelTap);
 
     const context = Tone.context.rawContext as AudioContext;
     this.audioDest = context.createMediaStreamDestination();
     this.limiter.connect(this.audioDest);
     
-    this.reverb = new Tone.Reverb({ decay: 2.0, wet: 0.2 }).connect(this.limiter);
+    // The reverb is a send bus: fully wet, with `wet` setting its return level
+    this.reverb = new Tone.Reverb({ decay: MASTER_REVERB.decay, wet: 1 });
+    this.reverbReturn = new Tone.Gain(MASTER_REVERB.wet).connect(this.limiter);
+    this.reverb.connect(this.reverbReturn);
+    this.mixer = new Mixer(this.reverb, this.limiter);
     this.isInitialized = true;
   }
 
-  public getEnergy(): number {
-    if (!this.meter) return 0;
-    // Tone.Meter returns decibels (approx -Infinity to 0).
-    // Convert to linear gain (0 to 1) for easier visual mapping.
-    const db = this.meter.getValue();
-    if (typeof db === 'number') {
-        return Tone.dbToGain(db);
-    }
-    return 0;
+  // Output features for the visuals; call once per frame (`time` in ms).
+  // The returned object is reused and updated in place on every call.
+  public analyse(time: number): AudioFeatures {
+    if (!this.analysis || !this.spectrumTap || !this.spectrum || !this.levelProbe || !this.mixer) return SILENCE;
+    this.spectrumTap.getFloatFrequencyData(this.spectrum);
+    this.activity.LEAD = this.mixer.rms('lead');
+    this.activity.RHYTHM = this.mixer.rms('rhythm');
+    this.activity.BASS = this.mixer.rms('bass');
+    this.activity.DRUMS = Math.max(this.mixer.rms('kick'), this.mixer.rms('snare'), this.mixer.rms('hats'));
+    return this.analysis.update(this.spectrum, this.levelProbe.read(), this.activity, time);
   }
 
   public stop() {
     try {
         Tone.Transport.stop();
         Tone.Transport.cancel();
+        this.midi?.stop();
         this.disposeInstruments();
         this.beatCallback = null;
         this.noteCallback = null;
+        this.chordCallback = null;
+        this.sectionCallback = null;
     } catch (e) {
         console.warn("Error stopping audio engine", e);
     }
   }
 
-  public async loadGenre(genre: GameGenre) {
+  // By default the genre plays as written: its own key following the changes,
+  // its tempo, voices and the master reverb
+  public async loadGenre(genreId: GenreId, overrides: GenreOverrides = {}) {
     if (!this.isInitialized) await this.initialize();
-    this.currentGenre = genre;
+    const genre = getGenre(genreId);
+    this.genre = genre;
     
     Tone.Transport.stop();
     Tone.Transport.cancel();
@@ -102,227 +176,70 @@ class AudioEngine {
     this.lastLeftTime = 0;
     this.lastLeftNoteIndex = -1;
     this.loopCounter = 0;
+    this.section = 'intro';
+    this.pendingSection = null;
+    this.sectionStartBar = 0;
+    this.looper.clear(); // Looped notes belong to the old genre's instruments and key
 
     this.disposeInstruments();
 
-    if (genre === GameGenre.JAZZ) this.setupJazz();
-    else if (genre === GameGenre.ELECTRONIC) this.setupElectronic();
-    else if (genre === GameGenre.FUNK) this.setupFunk();
+    this.key = overrides.key ?? { tonic: pitchClassOf(genre.key), scale: 'changes' };
+    this.progression = transposeProgression(genre.progression, genre.key, this.key.tonic).map(parseChord);
+    this.registers = {
+      right: rangeOf(genre.scales.right),
+      left: rangeOf(genre.scales.left),
+      bass: rangeOf(genre.scales.bass),
+    };
+    this.setChord(this.progression[0]);
+    this.setHeldNotes(this.heldNotes);
+
+    const clockTempo = this.externalClock ? this.midiIn?.tempo : null;
+    const transport = overrides.transport ?? genre.transport;
+    Tone.Transport.bpm.value = clockTempo ?? transport.bpm;
+    Tone.Transport.swing = transport.swing;
+    this.rack = genre.createInstruments({ channels: this.mixer!.inputs });
+    this.patch = overrides.patch ?? {};
+    patchRack(this.rack, this.patch);
+    this.setReverb(overrides.reverb ?? MASTER_REVERB);
+    this.targets = new Map(rackTargets(this.rack).map(target => [target.id, target]));
+    this.mapper.setMappings(genre.mappings);
+    const seed = Date.now() >>> 0;
+    this.backing = genre.createBacking(seed);
+    this.drums = new DrumSequencer(genre.drums, seed);
+    this.theremin = new ThereminVoice(this.mixer!.inputs.lead, { snap: this.leadMode === 'thereminSnap' ? THEREMIN_SNAP : 0 });
 
     this.startBackingTrack();
-    Tone.Transport.start();
+    this.midi?.stop();
+    const startTime = Tone.now();
+    Tone.Transport.start(startTime);
+    this.midi?.start(startTime);
   }
 
   private disposeInstruments() {
+      const rack = this.rack;
+      this.rack = null;
+      this.backing = null;
+      this.drums = null;
+      this.theremin?.dispose();
+      this.theremin = null;
+      if (!rack) return;
       try {
-        this.rightSynth?.dispose(); this.rightSynth = null;
-        this.leftSynth?.dispose(); this.leftSynth = null;
-        this.bassSynth?.dispose(); this.bassSynth = null;
-        this.drumKick?.dispose(); this.drumKick = null;
-        this.drumSnare?.dispose(); this.drumSnare = null;
-        this.drumHiHat?.dispose(); this.drumHiHat = null;
-        
-        this.leftEffect?.dispose(); this.leftEffect = null;
-        this.rightEffect?.dispose(); this.rightEffect = null;
-        this.extraEffect?.dispose(); this.extraEffect = null;
+        rack.rightSynth.dispose();
+        rack.leftSynth.dispose();
+        rack.bassSynth?.dispose();
+        rack.drumKick?.dispose();
+        rack.drumSnare?.dispose();
+        rack.drumHiHat?.dispose();
+        rack.drumRide?.dispose();
         
-        this.rightFilter?.dispose(); this.rightFilter = null;
-        this.leftFilter?.dispose(); this.leftFilter = null;
-        
-        this.funkVibrato?.dispose(); this.funkVibrato = null;
+        rack.rightFilter?.dispose();
+        rack.leftFilter?.dispose();
+        rack.rightPanner?.dispose();
+        rack.leftPanner?.dispose();
+        rack.nodes.forEach(node => node.dispose());
       } catch(e) { console.warn("Error disposing instruments", e); }
   }
 
-  // =================================================================
-  // GENRE SETUP
-  // =================================================================
-
-  private setupJazz() {
-    Tone.Transport.bpm.value = 120;
-    Tone.Transport.swing = 0.6;
-
-    // Right: Jazz Electric Piano (Rhodes Style)
-    this.rightSynth = new Tone.PolySynth(Tone.Synth, {
-      oscillator: { type: "pulse", width: 0.5 },
-      envelope: { 
-          attack: 0.02, 
-          decay: 0.4, 
-          sustain: 0.2, 
-          release: 1.5 
-      }, 
-      volume: -4
-    });
-    
-    this.rightFilter = new Tone.Filter(1200, "lowpass");
-    this.rightEffect = new Tone.Tremolo({ frequency: 6, depth: 0.5 }).start();
-
-    this.rightSynth.chain(this.rightFilter, this.rightEffect, this.reverb!);
-
-    // Left: Bright Sax (Sawtooth MonoSynth)
-    this.leftSynth = new Tone.MonoSynth({
-      oscillator: { type: "sawtooth" },
-      envelope: { attack: 0.05, decay: 0.2, sustain: 1.0, release: 0.8 },
-      filter: { Q: 3, type: "lowpass", rolloff: -24 },
-      filterEnvelope: { attack: 0.05, decay: 0.2, sustain: 0.5, release: 0.8, baseFrequency: 800, octaves: 3.5 },
-      volume: -4
-    });
-    
-    const dist = new Tone.Distortion(0.15); 
-    this.leftEffect = new Tone.Filter({ frequency: 2000, type: "lowpass", Q: 1 });
-    this.leftSynth.chain(dist, this.leftEffect, this.reverb!);
-
-    // Bass
-    this.bassSynth = new Tone.MonoSynth({
-      oscillator: { type: "triangle" },
-      envelope: { attack: 0.05, decay: 0.3, sustain: 0.4, release: 1.5 },
-      filterEnvelope: { attack: 0.05, decay: 0.2, sustain: 0.5, release: 0.8, baseFrequency: 100, octaves: 2 },
-      volume: 2
-    }).connect(this.limiter!);
-
-    // Drums
-    this.drumHiHat = new Tone.MetalSynth({ 
-        volume: -2, 
-        harmonicity: 5.1, 
-        modulationIndex: 32,
-        envelope: { attack: 0.001, decay: 0.1, release: 0.01 }
-    }).connect(this.reverb!);
-
-    this.drumKick = new Tone.MembraneSynth({ volume: -Infinity }).connect(this.limiter!);
-  }
-
-  private setupElectronic() {
-    Tone.Transport.bpm.value = 135; // Faster BPM for Electronic
-    Tone.Transport.swing = 0;
-
-    // Right: Hard Lead (Distorted MonoSynth)
-    this.rightSynth = new Tone.MonoSynth({
-      oscillator: { type: "square" },
-      envelope: { attack: 0.01, decay: 0.2, sustain: 0.8, release: 0.1 },
-      volume: -6
-    });
-    this.rightEffect = new Tone.Distortion(0.6).connect(this.reverb!);
-    this.rightSynth.connect(this.rightEffect);
-
-    // Left: Super Saw Chords
-    this.leftSynth = new Tone.PolySynth(Tone.Synth, {
-      oscillator: { type: "sawtooth" },
-      envelope: { attack: 0.01, decay: 0.1, sustain: 0.5, release: 0.5 },
-      volume: -8
-    });
-    
-    // Chain: Synth -> Distortion -> DJ Filter (LowPass) -> Reverb
-    const dist = new Tone.Distortion(0.4);
-    this.leftFilter = new Tone.Filter(20000, "lowpass"); // Starts open
-    this.leftSynth.chain(dist, this.leftFilter, this.reverb!);
-    
-    // Assign to leftEffect generic holder if needed
-    this.leftEffect = this.leftFilter; 
-
-    // Bass
-    this.bassSynth = new Tone.MonoSynth({
-      oscillator: { type: "sawtooth" },
-      envelope: { attack: 0.01, decay: 0.2, sustain: 0.6, release: 0.2 },
-      filterEnvelope: { baseFrequency: 200, octaves: 4, attack: 0.01 },
-      volume: -2
-    }).connect(this.limiter!);
-
-    // Drums
-    this.drumHiHat = new Tone.MetalSynth({ volume: -5, resonance: 3000 }).connect(this.limiter!);
-    this.drumSnare = new Tone.NoiseSynth({ volume: -2, envelope: { decay: 0.2 } }).connect(this.reverb!);
-    this.drumKick = new Tone.MembraneSynth({ 
-        volume: 0, 
-        pitchDecay: 0.05, 
-        octaves: 8 
-    }).connect(this.limiter!);
-  }
-
-  private setupFunk() {
-    Tone.Transport.bpm.value = 112; // Classic P-Funk tempo
-    Tone.Transport.swing = 0.1; // Subtle swing, 16th note feel
-
-    // Right: Brass Section (PolySynth with MonoSynth voices for filter envs)
-    // Simulating Trumpets/Trombones stabs
-    this.rightSynth = new Tone.PolySynth(Tone.MonoSynth, {
-      oscillator: { type: "sawtooth" },
-      envelope: { 
-        attack: 0.02, 
-        decay: 0.2, 
-        sustain: 0.7, 
-        release: 0.4 
-      },
-      filter: {
-        type: "lowpass",
-        Q: 2.5, // Brassy resonance
-        rolloff: -24
-      },
-      filterEnvelope: {
-        attack: 0.05, // The "Blare" opening
-        decay: 0.2,
-        sustain: 0.5,
-        baseFrequency: 300,
-        octaves: 4 // Opens up to bright ~4800Hz
-      },
-      volume: -5
-    });
-
-    // We don't need vibrato for brass fall, we need detune
-    this.rightSynth.connect(this.reverb!);
-
-    // Left: Wah-Wah Rhythm Guitar
-    this.leftSynth = new Tone.PolySynth(Tone.Synth, {
-      oscillator: { type: "square" }, // Square wave is great for funky stabs
-      envelope: { attack: 0.01, decay: 0.1, sustain: 0.1, release: 0.1 },
-      volume: -4
-    });
-    
-    // The "Manual Wah" Filter
-    // High Q for that "Quack" sound
-    this.leftFilter = new Tone.Filter({ frequency: 2000, type: "lowpass", Q: 8 }); 
-    this.leftSynth.chain(this.leftFilter, this.reverb!);
-    this.leftEffect = this.leftFilter;
-
-    // Bass: Slap Bass (Physics modeled)
-    this.bassSynth = new Tone.MonoSynth({
-      oscillator: { type: "square" }, // Square gives hollow slap tone
-      envelope: { 
-          attack: 0.01, // Snap!
-          decay: 0.2,   // Fast decay
-          sustain: 0,   // Staccato
-          release: 0.1 
-      },
-      filterEnvelope: { 
-          attack: 0.005, 
-          decay: 0.1, 
-          sustain: 0, 
-          baseFrequency: 100, 
-          octaves: 3.5, // Huge envelope modulation for "POP"
-          exponent: 2
-      },
-      filter: { Q: 6, type: "lowpass" }, // Resonant pop
-      volume: 0
-    }).connect(this.limiter!);
-
-    // Drums: Tight Funk Kit
-    this.drumHiHat = new Tone.MetalSynth({ 
-        volume: -8, 
-        harmonicity: 8, 
-        resonance: 4000,
-        envelope: { attack: 0.001, decay: 0.05, release: 0.01 } // Super tight hats
-    }).connect(this.limiter!);
-
-    this.drumSnare = new Tone.NoiseSynth({ 
-        volume: -2, 
-        envelope: { attack: 0.001, decay: 0.15, sustain: 0 } // Cracking snare
-    }).connect(this.reverb!);
-
-    this.drumKick = new Tone.MembraneSynth({ 
-        volume: 0, 
-        pitchDecay: 0.01, // Tight punch
-        octaves: 6,
-        envelope: { attack: 0.001, decay: 0.2, sustain: 0 }
-    }).connect(this.limiter!);
-  }
-
   // =================================================================
   // LOOPS
   // =================================================================
@@ -331,102 +248,46 @@ class AudioEngine {
     const loop = new Tone.Loop((time) => {
       try {
           // If stopped, don't play
-          if (!this.drumHiHat) return;
-          
+          if (!this.rack || !this.backing) return;
+
           const step = this.loopCounter % 16;
-          
+
           // Safety check for destroyed context
           if (Tone.context.state !== 'running') return;
 
-          if (this.currentGenre === GameGenre.JAZZ) {
-            if (step % 4 === 0) {
-                const bassNote = JAZZ_BASS[Math.floor(Math.random()*JAZZ_BASS.length)];
-                this.bassSynth?.triggerAttackRelease(bassNote, "4n", time);
-                Tone.Draw.schedule(() => {
-                    this.noteCallback?.('BASS', 0.5, 1.0);
-                }, time);
-                this.drumHiHat?.triggerAttackRelease("C5", "32n", time);
-            }
-            if (step === 6 || step === 14) {
-                this.drumHiHat?.triggerAttackRelease("C5", "32n", time, 0.5);
-            }
-
-          } else if (this.currentGenre === GameGenre.ELECTRONIC) {
-            if (step % 2 === 0) {
-                const bassNote = ELECTRONIC_BASS[Math.floor(Math.random()*ELECTRONIC_BASS.length)];
-                this.bassSynth?.triggerAttackRelease(bassNote, "8n", time);
-                Tone.Draw.schedule(() => {
-                    this.noteCallback?.('BASS', 0.5, 1.0);
-                }, time);
-                this.drumHiHat?.triggerAttackRelease("32n", time, step % 4 === 0 ? 1 : 0.5);
-            }
-            if (step === 0 || step === 8 || step === 10) {
-                this.drumKick?.triggerAttackRelease("C1", "16n", time);
-                Tone.Draw.schedule(() => {
-                    this.beatCallback?.('KICK');
-                }, time);
+          const bar = Math.floor(this.loopCounter / 16);
+          this.noteRecorder?.tempoAt(Tone.Transport.getTicksAtTime(time), Tone.Transport.bpm.getValueAtTime(time), Tone.Transport.swing);
+          if (step === 0) {
+            const chord = this.progression[bar % this.progression.length];
+            if (chord !== this.currentChord) {
+              this.setChord(chord);
+              Tone.Draw.schedule(() => this.chordCallback?.(chord), time);
             }
-            if (step === 4 || step === 12) {
-                (this.drumSnare as Tone.NoiseSynth)?.triggerAttackRelease("16n", time);
-                Tone.Draw.schedule(() => {
-                    this.beatCallback?.('SNARE');
-                }, time);
-            }
-
-          } else if (this.currentGenre === GameGenre.FUNK) {
-            // --- FUNK GROOVE (16th Note Syncopation) ---
-            
-            // Bass: "The One" is strictly adhered to, followed by syncopation
-            // Scale: E2 Root.
-            const root = "E2";
-            const octave = "E3";
-            const fifth = "B2";
-            const flatSeven = "D3";
-
-            // Slap Bass Pattern
-            if (step === 0) this.bassSynth?.triggerAttackRelease(root, "16n", time); // THE ONE
-            else if (step === 3) this.bassSynth?.triggerAttackRelease(root, "16n", time, 0.7); // Ghost
-            else if (step === 6) this.bassSynth?.triggerAttackRelease(octave, "16n", time, 0.9); // Octave Pop
-            else if (step === 8) this.bassSynth?.triggerAttackRelease(flatSeven, "16n", time, 0.8);
-            else if (step === 11) this.bassSynth?.triggerAttackRelease(root, "16n", time, 0.6); // Ghost
-            else if (step === 14) this.bassSynth?.triggerAttackRelease(fifth, "16n", time, 0.8); // Turnaround
-
-            if (step === 0 || step === 6 || step === 14) {
-                Tone.Draw.schedule(() => {
-                    this.noteCallback?.('BASS', 0.5, 1.0);
-                }, time);
-            }
-
-            // Kick: 1 and... and 3... 
-            if (step === 0) this.drumKick?.triggerAttackRelease("C1", "16n", time);
-            else if (step === 7) this.drumKick?.triggerAttackRelease("C1", "16n", time, 0.8);
-            else if (step === 10) this.drumKick?.triggerAttackRelease("C1", "16n", time, 0.7);
+            this.advanceSection(bar, time);
+          }
 
-            if (step === 0 || step === 10) {
-                Tone.Draw.schedule(() => {
-                    this.beatCallback?.('KICK');
-                }, time);
-            }
+          // The outro's bass rings out with the drum ending, then everything stops
+          const settings = SONG_SECTIONS[this.section];
+          const drumsDone = this.drums?.isFinished ?? false;
+          if (settings.bass && !drumsDone) {
+            this.backing({
+              step,
+              bar,
+              time,
+              rack: this.rack,
+              chord: this.currentChord!,
+              nextChord: this.progression[(bar + 1) % this.progression.length],
+              scales: this.voicedScales!,
+              playBass: this.playBass,
+              emitNote: (type, t) => Tone.Draw.schedule(() => this.noteCallback?.(type, 0.5, 1.0), t),
+            });
+          }
 
-            // Snare: Backbeat on 2 and 4 (Step 4 and 12) + Ghost notes
-            if (step === 4 || step === 12) {
-                (this.drumSnare as Tone.NoiseSynth)?.triggerAttackRelease("16n", time);
-                Tone.Draw.schedule(() => {
-                    this.beatCallback?.('SNARE');
-                }, time);
-            } else if (step === 15) {
-                (this.drumSnare as Tone.NoiseSynth)?.triggerAttackRelease("32n", time, 0.3); // Ghost at end
-            }
+          const hits = this.drums?.next() ?? [];
+          if (settings.drums !== 'mute') hits.forEach(hit => this.playDrum(this.rack!, hit, time));
 
-            // Hi-Hats: 16ths with accents
-            const velocity = (step % 4 === 0) ? 1 : (step % 2 === 0 ? 0.6 : 0.3);
-            // Open hat on the 'and' of 4 occasionally
-            if (step === 14 && Math.random() > 0.7) {
-                this.drumHiHat?.triggerAttackRelease("8n", time, 0.8); // Open hat
-            } else {
-                this.drumHiHat?.triggerAttackRelease("32n", time, velocity);
-            }
-          }
+          const looped = this.looper.tick(this.loopCounter);
+          if (!drumsDone) looped.forEach(note => this.playLoopNote(this.rack!, note, time));
 
           this.loopCounter++;
       } catch (e) {
@@ -435,45 +296,210 @@ class AudioEngine {
     }, "16n");
 
     loop.start(0);
+
+    // MIDI clock: 24 pulses per quarter note, following tempo ramps. Swing
+    // shifts every transport tick off the beat, so only the beats come from
+    // the transport; the pulses between them are spaced from the tempo.
+    Tone.Transport.scheduleRepeat((time) => this.midi?.clockBeat(time, t => Tone.Transport.bpm.getValueAtTime(t)), "4n", 0);
   }
 
+  private playBass = (note: string, duration: Tone.Unit.Time, time: number, velocity = 1) => {
+    if (this.rack) triggerNote(this.rack, 'BASS', note, duration, time, velocity);
+    this.midi?.note('BASS', note, Tone.Time(duration).toSeconds(), time, velocity);
+    this.recordNote('BASS', noteToMidi(note), duration, time, velocity);
+  };
+
   // =================================================================
-  // INTERACTION
+  // SECTIONS
+  // =================================================================
+
+  // On a bar line: take a requested section, or auto-advance one that has run its length
+  private advanceSection(bar: number, time: number) {
+    const current = SONG_SECTIONS[this.section];
+    let next = this.pendingSection;
+    if (!next && current.bars !== undefined && bar - this.sectionStartBar >= current.bars) next = current.next;
+    this.pendingSection = null;
+
+    if (next && next !== this.section) {
+      this.section = next;
+      this.sectionStartBar = bar;
+      this.applySectionDrums(true);
+      const section = next;
+      Tone.Draw.schedule(() => this.sectionCallback?.(section), time);
+    } else {
+      this.applySectionDrums(false);
+    }
+  }
+
+  private applySectionDrums(entering: boolean) {
+    const drums = this.drums;
+    if (!drums) return;
+    const settings = SONG_SECTIONS[this.section];
+    switch (settings.drums) {
+      case 'intro':
+        if (entering) drums.reset(true);
+        break;
+      case 'ending':
+        if (entering) drums.queueEnding();
+        break;
+      case 'fills':
+        if (drums.isFinished) drums.reset(false);
+        drums.queueFill();
+        break;
+      default:
+        if (!entering) break;
+        if (drums.isFinished) drums.reset(false);
+        if (settings.groove !== undefined) drums.setGroove(settings.groove);
+    }
+  }
+
+  public getSection(): SongSection { return this.section; }
+
+  // One entry point for gesture- and key-driven moves
+  public performAction(action: EngineAction) {
+    switch (action) {
+      case 'nextSection': this.nextSection(); break;
+      case 'breakdown': this.requestSection('breakdown'); break;
+      case 'outro': this.requestSection('outro'); break;
+      case 'fill': this.queueDrumFill(); break;
+      case 'nextGroove': this.setDrumGroove(this.getActiveDrumGroove() + 1); break;
+      case 'previousGroove': this.setDrumGroove(this.getActiveDrumGroove() - 1); break;
+      case 'loopRecord': this.toggleLooperRecord(); break;
+      case 'loopUndo': this.undoLooperLayer(); break;
+      case 'loopClear': this.clearLooper(); break;
+      case 'muteDrums': this.toggleMute('drums'); break;
+      case 'muteBass': this.toggleMute('bass'); break;
+    }
+  }
+
+  // Takes effect on the next bar line
+  public requestSection(section: SongSection) { this.pendingSection = section; }
+
+  public nextSection() {
+    this.requestSection(SONG_SECTIONS[this.pendingSection ?? this.section].next);
+  }
+
+  // =================================================================
+  // TEMPO
   // =================================================================
 
-  public updateRightHand(y: number, x: number, trigger: boolean, squeeze: number) {
-    if (!this.rightSynth || !this.isInitialized) return;
+  // Ignored while following an external MIDI clock
+  public setTempo(bpm: number) {
+    if (!this.genre || this.externalClock) return;
+    Tone.Transport.bpm.rampTo(bpm, TEMPO_RAMP_SECONDS);
+  }
+
+  // Swing is a plain Transport property; callers pass an already-smoothed value
+  public setSwing(amount: number) {
+    if (!this.genre) return;
+    Tone.Transport.swing = Math.max(0, Math.min(1, amount));
+  }
+
+  public getBpm(): number { return Tone.Transport.bpm.value; }
+  // True while the tempo follows an external MIDI clock (and conducting is ignored)
+  public isFollowingClock(): boolean { return this.externalClock; }
+  public getSwing(): number { return Tone.Transport.swing; }
 
-    // Automation Safety
+  // Length of a bar at the current tempo
+  public getBarDuration(): number { return Tone.Time("1m").toSeconds(); }
+
+  // =================================================================
+  // DRUMS
+  // =================================================================
+
+  private playDrum(rack: InstrumentRack, { voice, velocity, offset }: ScheduledDrumHit, stepTime: number) {
+    const time = stepTime + offset * Tone.Time("16n").toSeconds();
+    const duration = triggerDrum(rack, voice, time, velocity);
+    this.midi?.drum(voice, Tone.Time(duration).toSeconds(), time, velocity);
+    this.recordNote('DRUMS', DEFAULT_MIDI_OPTIONS.drumNotes[voice], duration, time, velocity, { voice });
+    // Ghost notes don't flash the visuals
+    if (velocity >= 0.5 && (voice === 'kick' || voice === 'snare')) {
+      const type = voice === 'kick' ? 'KICK' : 'SNARE';
+      Tone.Draw.schedule(() => this.beatCallback?.(type), time);
+    }
+  }
+
+  public getDrumGrooves(): string[] { return this.drums?.grooveNames ?? []; }
+  public getActiveDrumGroove(): number { return this.drums?.activeGroove ?? 0; }
+  public setDrumGroove(index: number) { this.drums?.setGroove(index); }
+  public queueDrumFill() { this.drums?.queueFill(); }
+  public queueDrumEnding() { this.drums?.queueEnding(); }
+
+  // =================================================================
+  // HARMONY
+  // =================================================================
+
+  // Re-voice every role's pitch pool to the chord, keeping the genre's registers.
+  // With a fixed scale selected the hands stay on it; the bass still follows the chords.
+  private setChord(chord: ChordInfo) {
+    const registers = this.registers!;
+    const key = this.key;
+    const handScale = (range: PitchRange) =>
+      !key || key.scale === 'changes' ? voiceChordScale(chord, range) : voiceScale(key.tonic, key.scale, range);
+    this.currentChord = chord;
+    this.voicedScales = {
+      right: handScale(registers.right),
+      left: handScale(registers.left),
+      bass: voiceChordTones(chord, registers.bass),
+    };
+  }
+
+  public getCurrentChord(): ChordInfo | null { return this.currentChord; }
+  public getKey(): KeySelection | null { return this.key; }
+
+  // =================================================================
+  // SOUND
+  // =================================================================
+
+  // The reverb is shared across genres; a new decay regenerates its impulse
+  // response, so that only happens when the decay actually changes
+  private setReverb(settings: ReverbSettings) {
+    this.reverbSettings = { ...settings };
+    if (!this.reverb || !this.reverbReturn) return;
     try {
-        if (this.currentGenre === GameGenre.JAZZ) {
-            if (this.rightSynth instanceof Tone.PolySynth) {
-                 this.rightSynth.set({ detune: squeeze * -50 });
-            }
-        } else if (this.currentGenre === GameGenre.ELECTRONIC) {
-            if (this.rightSynth instanceof Tone.MonoSynth) {
-                 this.rightSynth.detune.rampTo(squeeze * -1200, 0.05);
-            }
-        } else if (this.currentGenre === GameGenre.FUNK) {
-            // Funk Brass Section (Right Hand)
-            // Gesture: "The Fall" / "Doit"
-            // Hand Open (0.0) -> Standard Pitch
-            // Hand Closed (1.0) -> Drop Pitch (-500 cents / 5 semitones)
-            // This happens fast to simulate the drop at the end of a note.
-            if (this.rightSynth instanceof Tone.PolySynth) {
-                 // PolySynth with MonoSynth voices
-                 this.rightSynth.set({ detune: squeeze * -500 });
-            }
-        }
-    } catch (e) {}
+      if (this.reverb.decay !== settings.decay) this.reverb.decay = settings.decay;
+      this.reverbReturn.gain.value = settings.wet;
+    } catch (e) { console.warn("Could not set reverb", e); }
+  }
+
+  public getPatch(): RackPatch { return this.patch; }
+  public getReverb(): ReverbSettings { return this.reverbSettings; }
+
+  // =================================================================
+  // MIXER
+  // =================================================================
+
+  // Settings stay with the engine across genres (a new rack plugs into the same strips)
+  public getMix(): MixSettings { return this.mixer?.getMix() ?? DEFAULT_MIX; }
+  public setChannel(id: MixerChannelId, changes: Partial<ChannelSettings>) { this.mixer?.set(id, changes); }
+  public toggleMute(group: MuteGroup) { this.mixer?.toggleMute(group); }
+  public getChannelLevel(id: MixerChannelId): number { return this.mixer?.level(id) ?? 0; }
+
+  // =================================================================
+  // INTERACTION
+  // =================================================================
+
+  // `dynamics` shapes triggered notes; without it they play at full velocity
+  public updateRightHand(y: number, x: number, trigger: boolean, squeeze: number, dynamics?: NoteDynamics, pinching = false) {
+    const rack = this.rack;
+    if (!rack || !this.genre || !this.voicedScales || !this.isInitialized) return;
+
+    const controls = handControls(x, y, squeeze, dynamics, pinching);
+    this.applyMappings('right', controls);
+    this.midi?.control('LEAD', 'squeeze', squeeze);
+    this.midi?.control('LEAD', 'x', x);
+    this.noteRecorder?.control({ role: 'LEAD', time: Tone.now(), ...controls });
+
+    if (this.leadMode !== 'notes') {
+        this.playTheremin({ y, x, squeeze, gate: trigger });
+        return;
+    }
 
     if (trigger) {
-        const scale = this.currentGenre === GameGenre.ELECTRONIC ? ELECTRONIC_SCALE_RIGHT 
-                    : this.currentGenre === GameGenre.FUNK ? FUNK_SCALE_RIGHT 
-                    : JAZZ_SCALE_RIGHT;
+        const scale = this.heldScales?.right ?? this.voicedScales.right;
         
         const normalizedY = 1 - Math.max(0, Math.min(1, y));
-        const noteIndex = Math.floor(normalizedY * scale.length);
+        const noteIndex = Math.min(scale.length - 1, Math.floor(normalizedY * scale.length));
         const note = scale[noteIndex];
 
         // Ensure we schedule in the future or now
@@ -483,7 +509,12 @@ class AudioEngine {
 
         if (triggerTime > this.lastRightTime) {
             try {
-                this.rightSynth.triggerAttackRelease(note, "8n", triggerTime);
+                const velocity = dynamics?.velocity ?? 1;
+                if (dynamics) applyDynamics(rack, 'LEAD', dynamics, triggerTime);
+                triggerNote(rack, 'LEAD', note, "8n", triggerTime, velocity);
+                this.midi?.note('LEAD', note, Tone.Time("8n").toSeconds(), triggerTime, velocity);
+                this.recordNote('LEAD', noteToMidi(note), "8n", triggerTime, velocity, handDynamics(dynamics));
+                this.captureLoopNote(triggerTime, { role: 'LEAD', note, duration: "8n", velocity, x, y, ...handDynamics(dynamics) });
                 this.lastRightTime = triggerTime;
                 
                 Tone.Draw.schedule(() => {
@@ -494,41 +525,60 @@ class AudioEngine {
     }
   }
 
-  public updateLeftHand(y: number, x: number, trigger: boolean, squeeze: number) {
-      if (!this.leftSynth || !this.leftEffect || !this.isInitialized) return;
+  // The right hand left the frame: end a theremin note
+  public releaseRightHand() {
+    if (this.leadMode !== 'notes') this.playTheremin(null);
+  }
 
-      try {
-        if (this.currentGenre === GameGenre.JAZZ) {
-            (this.leftSynth as Tone.MonoSynth).detune.rampTo(squeeze * -200, 0.1);
-            if(this.leftEffect instanceof Tone.Filter) {
-                this.leftEffect.frequency.rampTo(500 + (x * 3500), 0.1);
-            }
-            
-        } else if (this.currentGenre === GameGenre.ELECTRONIC) {
-            const cutoff = 200 + ((1.0 - squeeze) * 8000); 
-            if (this.leftFilter) {
-                this.leftFilter.frequency.rampTo(cutoff, 0.1);
-            }
-        } else if (this.currentGenre === GameGenre.FUNK) {
-            // Funk Manual Wah-Wah
-            // Hand Open (0.0 squeeze) -> High Freq (Wah!)
-            // Hand Closed (1.0 squeeze) -> Low Freq (Ooh...)
-            if (this.leftFilter) {
-                 const openness = 1.0 - squeeze; // 1 = Open, 0 = Closed
-                 // Map openness to frequency: 300Hz (Closed) -> 3500Hz (Open)
-                 const wahFreq = 300 + (openness * 3200);
-                 this.leftFilter.frequency.rampTo(wahFreq, 0.05);
-            }
-        }
-      } catch (e) {}
+  public setLeadMode(mode: LeadMode) {
+    this.playTheremin(null);
+    this.leadMode = mode;
+    this.theremin?.setSnap(mode === 'thereminSnap' ? THEREMIN_SNAP : 0);
+  }
+
+  // Glide the theremin to the hand (null releases it). Live MIDI follows as a
+  // held note plus pitch bend; the note is logged with its path when it ends.
+  private playTheremin(frame: ThereminFrame | null) {
+    const theremin = this.theremin;
+    if (!theremin || !this.registers || !this.voicedScales) return;
+    const starting = !theremin.playing && frame?.gate;
+    const scale = (this.heldScales?.right ?? this.voicedScales.right).map(noteToMidi);
+    const time = Tone.now();
+    const ended = frame ? theremin.update(frame, this.registers.right, scale, time) : theremin.release(time);
+
+    const sounding = theremin.sounding;
+    if (sounding) this.midi?.pitchBend('LEAD', sounding.path[sounding.path.length - 1].pitch - sounding.pitch, time);
+    if (starting && sounding) {
+      this.midi?.noteOn('LEAD', sounding.pitch, time, sounding.velocity);
+      Tone.Draw.schedule(() => this.noteCallback?.('LEAD', frame.x, frame.y), time);
+    }
+    if (ended) {
+      this.midi?.noteOff('LEAD', ended.pitch, time);
+      this.midi?.pitchBend('LEAD', 0, time);
+      this.recordThereminNote(ended);
+    }
+  }
+
+  private recordThereminNote({ pitch, duration, time, velocity, path }: ThereminNote) {
+    const glide = path.map(point => ({ ...point, tick: Tone.Transport.getTicksAtTime(point.time) }));
+    this.recordNote('LEAD', pitch, duration, time, velocity, { glide });
+  }
+
+  public updateLeftHand(y: number, x: number, trigger: boolean, squeeze: number, dynamics?: NoteDynamics, pinching = false) {
+      const rack = this.rack;
+      if (!rack || !this.genre || !this.voicedScales || !this.isInitialized) return;
+
+      const controls = handControls(x, y, squeeze, dynamics, pinching);
+      this.applyMappings('left', controls);
+      this.midi?.control('RHYTHM', 'squeeze', squeeze);
+      this.midi?.control('RHYTHM', 'x', x);
+      this.noteRecorder?.control({ role: 'RHYTHM', time: Tone.now(), ...controls });
 
       if (trigger) {
-          const scale = this.currentGenre === GameGenre.ELECTRONIC ? ELECTRONIC_SCALE_LEFT 
-                      : this.currentGenre === GameGenre.FUNK ? FUNK_SCALE_LEFT 
-                      : JAZZ_SCALE_LEFT;
+          const scale = this.heldScales?.left ?? this.voicedScales.left;
 
           const normalizedY = 1 - Math.max(0, Math.min(1, y));
-          const noteIndex = Math.floor(normalizedY * scale.length);
+          const noteIndex = Math.min(scale.length - 1, Math.floor(normalizedY * scale.length));
           const note = scale[noteIndex];
 
           const nextDiv = Tone.Transport.nextSubdivision("16n");
@@ -537,11 +587,13 @@ class AudioEngine {
 
           if (triggerTime > this.lastLeftTime) {
               try {
-                if (this.leftSynth instanceof Tone.PolySynth) {
-                    this.leftSynth.triggerAttackRelease(note, "16n", triggerTime);
-                } else {
-                    this.leftSynth.triggerAttackRelease(note, "8n", triggerTime);
-                }
+                const duration = rack.leftSynth instanceof Tone.PolySynth ? "16n" : "8n";
+                const velocity = dynamics?.velocity ?? 1;
+                if (dynamics) applyDynamics(rack, 'RHYTHM', dynamics, triggerTime);
+                triggerNote(rack, 'RHYTHM', note, duration, triggerTime, velocity);
+                this.midi?.note('RHYTHM', note, Tone.Time(duration).toSeconds(), triggerTime, velocity);
+                this.recordNote('RHYTHM', noteToMidi(note), duration, triggerTime, velocity, handDynamics(dynamics));
+                this.captureLoopNote(triggerTime, { role: 'RHYTHM', note, duration, velocity, x, y, ...handDynamics(dynamics) });
                 
                 this.lastLeftTime = triggerTime;
                 this.lastLeftNoteIndex = noteIndex;
@@ -554,10 +606,154 @@ class AudioEngine {
       }
   }
 
+  // =================================================================
+  // PARAMETER MAPPINGS
+  // =================================================================
+
+  private applyMappings(hand: HandSide, controls: HandControls) {
+    for (const { target, value } of this.mapper.update(hand, controls)) {
+      // Automation Safety
+      try { this.targets.get(target)?.set(value); } catch (e) {}
+    }
+  }
+
+  public getMappings(): ParameterMapping[] { return this.mapper.getMappings(); }
+  public setMappings(mappings: ParameterMapping[]) { this.mapper.setMappings(mappings); }
+  public getMappingTargets(): MappingTarget[] { return [...this.targets.values()]; }
+
+  // =================================================================
+  // MIDI
+  // =================================================================
+
+  // Mirror notes, gestures and clock to `port` (null to turn MIDI off)
+  public setMidiOutput(port: MidiPort | null) {
+    this.midi?.stop();
+    this.midi = port ? new MidiOutput(port, {
+      // Tone schedules ahead on the audio clock; MIDI timestamps use performance.now()
+      toTimestamp: (time) => performance.now() + (time - Tone.now()) * 1000,
+      now: () => Tone.now(),
+    }) : null;
+    if (this.midi && Tone.Transport.state === 'started') {
+      // Join mid-performance on the next bar so the receiver's bar lines match
+      this.midi.start(Tone.Transport.nextSubdivision("1m"));
+    }
+  }
+
+  // Follow `port`'s clock and start/stop, and play held keys as the hands' pitch pool
+  public setMidiInput(port: MidiInputPort | null) {
+    this.midiIn?.disconnect();
+    this.midiIn = null;
+    this.externalClock = false;
+    this.setHeldNotes([]);
+    if (!port) return;
+
+    this.midiIn = new MidiInput({
+      onTempo: (bpm) => {
+        this.externalClock = true;
+        if (this.genre) Tone.Transport.bpm.rampTo(bpm, TEMPO_RAMP_SECONDS);
+      },
+      onStart: () => this.restartTransport(),
+      onContinue: () => { if (this.genre) Tone.Transport.start(); },
+      onStop: () => { if (this.genre) Tone.Transport.pause(); },
+      onClockLost: () => { this.externalClock = false; },
+      onHeldNotes: (notes) => this.setHeldNotes(notes),
+    });
+    this.midiIn.connect(port);
+  }
+
+  // Back to bar 1 of the progression and the drum intro, on the beat
+  private restartTransport() {
+    if (!this.genre) return;
+    Tone.Transport.stop();
+    Tone.Transport.position = 0;
+    this.loopCounter = 0;
+    this.section = 'intro';
+    this.pendingSection = null;
+    this.sectionStartBar = 0;
+    this.drums?.reset(true);
+    this.looper.restartAt(0);
+    this.setChord(this.progression[0]);
+    Tone.Transport.start();
+    Tone.Draw.schedule(() => this.sectionCallback?.('intro'), Tone.now());
+  }
+
+  private setHeldNotes(notes: number[]) {
+    this.heldNotes = notes;
+    const registers = this.registers;
+    if (notes.length === 0 || !registers) {
+      this.heldScales = null;
+      return;
+    }
+    // Voice the held pitch classes across each hand's register, spelled from the lowest key
+    const root = notes[0] % 12;
+    const intervals = [...new Set(notes.map(n => (n - root + 120) % 12))];
+    const preferFlats = this.currentChord?.preferFlats ?? true;
+    const voice = ({ low, high }: PitchRange) =>
+      voicePitchSet(root, intervals, low, high).map(m => midiToNote(m, preferFlats));
+    this.heldScales = { right: voice(registers.right), left: voice(registers.left) };
+  }
+
+  // =================================================================
+  // LOOPER
+  // =================================================================
+
+  // Record a phrase from the next bar line, or overdub a layer when the loop comes round
+  public toggleLooperRecord() { this.looper.toggleRecord(); }
+  public undoLooperLayer() { this.looper.undo(); }
+  public clearLooper() { this.looper.clear(); }
+  public getLooperState(): LooperState { return this.looper.state; }
+  public getLooperLayers(): number { return this.looper.layerCount; }
+
+  // Hand notes are already on the 16th grid; file them under their step
+  private captureLoopNote(time: number, note: LoopNote) {
+    const step = Math.round(Tone.Transport.getTicksAtTime(time) / (Tone.Transport.PPQ / 4));
+    this.looper.capture(step, note);
+  }
+
+  // Replays a looped note shaped as it was played, so overdubs and takes of the loop sound the same
+  private playLoopNote(rack: InstrumentRack, { role, note, duration, velocity, x, y, pan, filterAmount }: LoopNote, time: number) {
+    const dynamics = pan !== undefined && filterAmount !== undefined ? { pan, filterAmount } : undefined;
+    if (dynamics) applyDynamics(rack, role, dynamics, time);
+    triggerNote(rack, role, note, duration, time, velocity);
+    this.midi?.note(role, note, Tone.Time(duration).toSeconds(), time, velocity);
+    this.recordNote(role, noteToMidi(note), duration, time, velocity, dynamics);
+    Tone.Draw.schedule(() => this.noteCallback?.(role, x, y), time);
+  }
+
+  // =================================================================
+  // NOTE RECORDING
+  // =================================================================
+
+  // Log every note from now on, for export as a MIDI file
+  public startNoteRecording() {
+    if (!this.genre) return;
+    this.noteRecorder = new NoteRecorder(Tone.Transport.PPQ);
+    const setup = { genre: this.genre.id, mappings: this.mapper.getMappings(), patch: this.patch, reverb: this.reverbSettings, mix: this.getMix() };
+    this.noteRecorder.start(setup, Tone.Transport.ticks, Tone.now(), Tone.Transport.bpm.value, Tone.Transport.swing);
+  }
+
+  public stopNoteRecording(): NoteTake | null {
+    // A theremin note still held is logged as far as it got
+    const held = this.theremin?.sounding;
+    if (held) this.recordThereminNote({ ...held, duration: Tone.now() - held.time });
+    const take = this.noteRecorder?.stop() ?? null;
+    this.noteRecorder = null;
+    return take;
+  }
+
+  private recordNote(role: MidiRole, pitch: number, duration: Tone.Unit.Time, time: number, velocity: number, details: Pick<NoteEvent, 'voice' | 'glide' | 'pan' | 'filterAmount'> = {}) {
+    if (!this.noteRecorder?.recording) return;
+    const seconds = Tone.Time(duration).toSeconds();
+    const tick = Tone.Transport.getTicksAtTime(time);
+    const durationTicks = Tone.Transport.getTicksAtTime(time + seconds) - tick;
+    this.noteRecorder.note({ role, pitch, ...details, tick, durationTicks, time, duration: seconds, velocity });
+  }
+
   public getAudioStream() { return this.audioDest?.stream; }
   public onBeat(cb: BeatCallback) { this.beatCallback = cb; }
   public onNoteTriggered(cb: NoteCallback) { this.noteCallback = cb; }
-  public setGlobalEnergy(e: number) {}
+  public onChordChange(cb: ChordCallback) { this.chordCallback = cb; }
+  public onSectionChange(cb: SectionCallback) { this.sectionCallback = cb; }
 }
 
 export const audioEngine = new AudioEngine();
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { compileDrumPattern, DrumArrangementSpec, DrumSequencer, ScheduledDrumHit, STEPS_PER_BAR } from './drumPatterns';
+
+const REST = '.'.repeat(15);
+
+// Each pattern is told apart by the voice on its downbeat
+const ARRANGEMENT: DrumArrangementSpec = {
+  intro: { name: 'Intro', tracks: { ride: 'X' + REST } },
+  grooves: [
+    { name: 'Groove', tracks: { kick: 'X' + REST, hihat: '..?...?...?...?.' } },
+    { name: 'Half', tracks: { kick: 'x.......x.......' } },
+  ],
+  fills: [{ name: 'Fill', tracks: { snare: 'X...x...x...xxxx' } }],
+  fillEvery: 4,
+  ending: { name: 'Ending', tracks: { openHat: 'X' + REST + '.'.repeat(16) } }, // Two bars
+};
+
+// `count` bars of hits, one list per 16th
+const playBars = (sequencer: DrumSequencer, count: number): ScheduledDrumHit[][][] =>
+  Array.from({ length: count }, () => Array.from({ length: STEPS_PER_BAR }, () => sequencer.next()));
+
+const downbeats = (bars: ScheduledDrumHit[][][]) => bars.map(bar => bar[0].map(hit => hit.voice).join() || '-');
+
+describe('compileDrumPattern', () => {
+  it('reads velocities and chances from the grid', () => {
+    const pattern = compileDrumPattern({ name: 'Grid', tracks: { snare: 'Xxo?' + '.'.repeat(12) } });
+    expect(pattern.length).toBe(16);
+    expect(pattern.steps.slice(0, 5)).toEqual([
+      [{ voice: 'snare', velocity: 1, probability: 1 }],
+      [{ voice: 'snare', velocity: 0.6, probability: 1 }],
+      [{ voice: 'snare', velocity: 0.3, probability: 1 }],
+      [{ voice: 'snare', velocity: 0.6, probability: 0.5 }],
+      [],
+    ]);
+  });
+
+  it('takes explicit steps, clamping their velocity', () => {
+    const pattern = compileDrumPattern({ name: 'Steps', bars: 2, tracks: { kick: [{ step: 20, velocity: 1.5, probability: 0.25 }] } });
+    expect(pattern.length).toBe(32);
+    expect(pattern.steps[20]).toEqual([{ voice: 'kick', velocity: 1, probability: 0.25 }]);
+  });
+
+  it('rejects patterns that are not whole bars', () => {
+    expect(() => compileDrumPattern({ name: 'Short', tracks: { kick: 'X...........' } }))
+      .toThrow('Drum pattern "Short": length 12 is not a whole number of bars');
+    expect(() => compileDrumPattern({ name: 'Empty', bars: 0, tracks: {} }))
+      .toThrow('Drum pattern "Empty": length 0 is not a whole number of bars');
+    expect(() => compileDrumPattern({ name: 'Ragged', tracks: { kick: 'X' + REST, snare: 'X' + REST + REST + '.' } }))
+      .toThrow('Drum pattern "Ragged": tracks have different lengths');
+  });
+
+  it('rejects unknown grid characters', () => {
+    expect(() => compileDrumPattern({ name: 'Typo', tracks: { snare: '..k.' + '.'.repeat(12) } }))
+      .toThrow(`Drum pattern "Typo": unknown character 'k' in snare track`);
+  });
+
+  it('rejects steps outside the pattern', () => {
+    const withStep = (step: number) => () => compileDrumPattern({ name: 'Out', tracks: { kick: 'X' + REST, ride: [{ step, velocity: 1 }] } });
+    expect(withStep(16)).toThrow('Drum pattern "Out": ride step 16 is outside the pattern');
+    expect(withStep(-1)).toThrow('Drum pattern "Out": ride step -1 is outside the pattern');
+    expect(withStep(2.5)).toThrow('Drum pattern "Out": ride step 2.5 is outside the pattern');
+  });
+});
+
+describe('DrumSequencer', () => {
+  it('needs a groove', () => {
+    expect(() => new DrumSequencer({ ...ARRANGEMENT, grooves: [] })).toThrow('Drum arrangement needs at least one groove');
+  });
+
+  it('plays a fill in the last bar of every phrase', () => {
+    const sequencer = new DrumSequencer(ARRANGEMENT);
+    sequencer.reset(false);
+    expect(downbeats(playBars(sequencer, 12))).toEqual([
+      'kick', 'kick', 'kick', 'snare',
+      'kick', 'kick', 'kick', 'snare',
+      'kick', 'kick', 'kick', 'snare',
+    ]);
+
+    const eights = new DrumSequencer({ ...ARRANGEMENT, fillEvery: 8 });
+    eights.reset(false);
+    expect(downbeats(playBars(eights, 16)).flatMap((voice, bar) => (voice === 'snare' ? [bar] : []))).toEqual([7, 15]);
+  });
+
+  it('plays a queued fill in the next bar', () => {
+    const sequencer = new DrumSequencer(ARRANGEMENT);
+    sequencer.reset(false);
+    playBars(sequencer, 1);
+    sequencer.queueFill();
+    expect(downbeats(playBars(sequencer, 3))).toEqual(['snare', 'kick', 'snare']);
+  });
+
+  it('opens with the intro, grooves, then ends and falls silent', () => {
+    const sequencer = new DrumSequencer(ARRANGEMENT);
+    expect(downbeats(playBars(sequencer, 3))).toEqual(['ride', 'kick', 'kick']);
+    sequencer.setGroove(1);
+    expect(sequencer.activeGroove).toBe(1);
+    sequencer.queueEnding();
+    expect(downbeats(playBars(sequencer, 5))).toEqual(['openHat', '-', '-', '-', '-']);
+    expect(sequencer.isFinished).toBe(true);
+
+    sequencer.reset();
+    expect(sequencer.isFinished).toBe(false);
+    expect(downbeats(playBars(sequencer, 2))).toEqual(['ride', 'kick']);
+  });
+
+  it('ends at once when there is no ending', () => {
+    const sequencer = new DrumSequencer({ ...ARRANGEMENT, intro: undefined, ending: undefined });
+    playBars(sequencer, 1);
+    sequencer.queueEnding();
+    expect(playBars(sequencer, 1)[0].flat()).toEqual([]);
+    expect(sequencer.isFinished).toBe(true);
+  });
+
+  it('swings the off-beat 16ths by the pattern swing', () => {
+    const swung = { name: 'Swung', swing: 0.6, tracks: { ride: 'xx' + '.'.repeat(14) } };
+    const sequencer = new DrumSequencer({ ...ARRANGEMENT, intro: undefined, grooves: [swung] });
+    const [[onBeat, offBeat]] = playBars(sequencer, 1);
+    expect(onBeat).toEqual([{ voice: 'ride', velocity: 0.6, offset: 0 }]);
+    expect(offBeat[0].offset).toBeCloseTo(0.2);
+  });
+
+  it('repeats its chance hits for the same seed', () => {
+    const hats = (seed: number) => playBars(new DrumSequencer({ ...ARRANGEMENT, intro: undefined, fills: [] }, seed), 8)
+      .map(bar => bar.map(hits => hits.some(hit => hit.voice === 'hihat')));
+    expect(hats(5)).toEqual(hats(5));
+    expect(hats(6)).not.toEqual(hats(5));
+    const played = hats(5).flat().filter(Boolean).length;
+    expect(played).toBeGreaterThan(4); // Of 32 chances at 0.5
+    expect(played).toBeLessThan(28);
+  });
+});
@@ -0,0 +1,239 @@
+import { createRandom, pickRandom } from './random';
+
+export type DrumVoice = 'kick' | 'snare' | 'hihat' | 'openHat' | 'ride';
+
+export const DRUM_VOICES: DrumVoice[] = ['kick', 'snare', 'hihat', 'openHat', 'ride'];
+
+export const STEPS_PER_BAR = 16;
+
+// A single hit in a track, for when the grid characters aren't precise enough
+export interface DrumStep {
+  step: number; // 16th within the pattern
+  velocity: number; // 0-1
+  probability?: number; // 0-1, chance the hit plays each pass (default 1)
+}
+
+// Tracks are written either as a grid string, one character per 16th:
+//   'X' accent (1.0)   'x' normal (0.6)   'o' ghost (0.3)
+//   '?' maybe (0.6, plays half the time)   '.' rest
+// or as an explicit list of steps. A grid's length sets the pattern length
+// (a whole number of bars).
+export type DrumTrack = string | DrumStep[];
+
+export interface DrumPatternSpec {
+  name: string;
+  bars?: number; // Needed only when every track is a step list
+  swing?: number; // 0 = straight, 1 = triplet: delays off-beat 16ths, on top of Transport swing
+  tracks: Partial<Record<DrumVoice, DrumTrack>>;
+}
+
+// Patterns a genre's drummer can play. Grooves loop (the first is the
+// default); fills, the intro and the ending are played once.
+export interface DrumArrangementSpec {
+  grooves: DrumPatternSpec[];
+  fills: DrumPatternSpec[];
+  fillEvery: 4 | 8; // A fill replaces the last bar of every phrase this long
+  intro?: DrumPatternSpec;
+  ending?: DrumPatternSpec;
+}
+
+export interface DrumHit {
+  voice: DrumVoice;
+  velocity: number;
+  probability: number;
+}
+
+export interface DrumPattern {
+  name: string;
+  length: number; // In 16ths
+  swing: number;
+  steps: DrumHit[][]; // Hits per step
+}
+
+export interface ScheduledDrumHit {
+  voice: DrumVoice;
+  velocity: number;
+  offset: number; // Delay in 16ths (swing)
+}
+
+const GRID_HITS: Record<string, { velocity: number; probability: number }> = {
+  X: { velocity: 1.0, probability: 1 },
+  x: { velocity: 0.6, probability: 1 },
+  o: { velocity: 0.3, probability: 1 },
+  '?': { velocity: 0.6, probability: 0.5 },
+};
+
+const parseGrid = (voice: DrumVoice, grid: string, patternName: string): DrumStep[] => {
+  const steps: DrumStep[] = [];
+  [...grid].forEach((char, step) => {
+    if (char === '.' || char === ' ') return;
+    const hit = GRID_HITS[char];
+    if (!hit) throw new Error(`Drum pattern "${patternName}": unknown character '${char}' in ${voice} track`);
+    steps.push({ step, ...hit });
+  });
+  return steps;
+};
+
+// Validate a pattern and flatten its tracks into per-step hit lists
+export const compileDrumPattern = (spec: DrumPatternSpec): DrumPattern => {
+  const gridLengths = Object.values(spec.tracks)
+    .filter((track): track is string => typeof track === 'string')
+    .map(track => track.length);
+  const length = spec.bars !== undefined ? spec.bars * STEPS_PER_BAR : (gridLengths[0] ?? STEPS_PER_BAR);
+
+  if (length <= 0 || length % STEPS_PER_BAR !== 0) {
+    throw new Error(`Drum pattern "${spec.name}": length ${length} is not a whole number of bars`);
+  }
+  if (gridLengths.some(l => l !== length)) {
+    throw new Error(`Drum pattern "${spec.name}": tracks have different lengths`);
+  }
+
+  const steps: DrumHit[][] = Array.from({ length }, () => []);
+  for (const voice of DRUM_VOICES) {
+    const track = spec.tracks[voice];
+    if (track === undefined) continue;
+    const hits = typeof track === 'string' ? parseGrid(voice, track, spec.name) : track;
+    for (const { step, velocity, probability = 1 } of hits) {
+      if (!Number.isInteger(step) || step < 0 || step >= length) {
+        throw new Error(`Drum pattern "${spec.name}": ${voice} step ${step} is outside the pattern`);
+      }
+      steps[step].push({ voice, velocity: Math.max(0, Math.min(1, velocity)), probability });
+    }
+  }
+
+  return { name: spec.name, length, swing: spec.swing ?? 0, steps };
+};
+
+type OneShot = 'intro' | 'fill' | 'ending';
+
+// Plays a genre's drum arrangement one 16th at a time:
+// - the intro (if any) opens the performance
+// - the active groove loops, indexed by the absolute bar so it stays on the phrase
+// - a random fill replaces the last bar of every `fillEvery` bars, or the next
+//   bar when one is queued
+// - once the ending has been queued and played, the drums fall silent
+// Given the same seed, the choices of fills and probabilistic hits repeat.
+export class DrumSequencer {
+  private grooves: DrumPattern[];
+  private fills: DrumPattern[];
+  private intro: DrumPattern | null;
+  private ending: DrumPattern | null;
+  private fillEvery: number;
+  private random: () => number;
+
+  private grooveIndex = 0;
+  private bar = 0;
+  private step = 0;
+  // A one-shot pattern in progress, and the bar it started on
+  private oneShot: { kind: OneShot; pattern: DrumPattern; startBar: number } | null = null;
+  private fillQueued = false;
+  private endingQueued = false;
+  private finished = false;
+
+  constructor(arrangement: DrumArrangementSpec, seed = 1) {
+    if (arrangement.grooves.length === 0) throw new Error('Drum arrangement needs at least one groove');
+    this.grooves = arrangement.grooves.map(compileDrumPattern);
+    this.fills = arrangement.fills.map(compileDrumPattern);
+    this.intro = arrangement.intro ? compileDrumPattern(arrangement.intro) : null;
+    this.ending = arrangement.ending ? compileDrumPattern(arrangement.ending) : null;
+    this.fillEvery = arrangement.fillEvery;
+    this.random = createRandom(seed);
+    this.reset();
+  }
+
+  // Back to the top of a phrase with the default groove, from the intro if asked.
+  // Call on a bar line.
+  public reset(withIntro = true) {
+    this.bar = 0;
+    this.step = 0;
+    this.grooveIndex = 0;
+    this.fillQueued = false;
+    this.endingQueued = false;
+    this.finished = false;
+    this.oneShot = withIntro && this.intro ? { kind: 'intro', pattern: this.intro, startBar: 0 } : null;
+  }
+
+  public get grooveNames(): string[] { return this.grooves.map(g => g.name); }
+  public get activeGroove(): number { return this.grooveIndex; }
+  public get isFinished(): boolean { return this.finished; }
+
+  public setGroove(index: number) {
+    const count = this.grooves.length;
+    this.grooveIndex = ((index % count) + count) % count;
+  }
+
+  // Play a fill in the next bar instead of waiting for the phrase end
+  public queueFill() { this.fillQueued = true; }
+
+  // Play the ending after the current bar, then stop
+  public queueEnding() { this.endingQueued = true; }
+
+  // Hits for the next 16th, in order. Advances the sequencer by one step.
+  public next(): ScheduledDrumHit[] {
+    if (this.step === 0) this.startBar();
+
+    const pattern = this.currentPattern();
+    const scheduled: ScheduledDrumHit[] = [];
+    if (pattern) {
+      const patternStep = this.oneShot
+        ? (this.bar - this.oneShot.startBar) * STEPS_PER_BAR + this.step
+        : (this.bar * STEPS_PER_BAR + this.step) % pattern.length;
+      const offset = patternStep % 2 === 1 ? pattern.swing / 3 : 0;
+      const hits = pattern.steps[patternStep];
+      // The open and closed hat are the same cymbal: an open hat chokes the closed one
+      const opens = hits.some(h => h.voice === 'openHat' && this.plays(h));
+      for (const hit of hits) {
+        if (hit.voice === 'openHat') {
+          if (opens) scheduled.push({ voice: 'openHat', velocity: hit.velocity, offset });
+        } else if (!(hit.voice === 'hihat' && opens) && this.plays(hit)) {
+          scheduled.push({ voice: hit.voice, velocity: hit.velocity, offset });
+        }
+      }
+    }
+
+    this.step++;
+    if (this.step === STEPS_PER_BAR) {
+      this.step = 0;
+      this.bar++;
+    }
+    return scheduled;
+  }
+
+  private plays(hit: DrumHit) {
+    return hit.probability >= 1 || this.random() < hit.probability;
+  }
+
+  private currentPattern(): DrumPattern | null {
+    if (this.finished) return null;
+    return this.oneShot ? this.oneShot.pattern : this.grooves[this.grooveIndex];
+  }
+
+  // Decide what plays in the bar that's starting
+  private startBar() {
+    if (this.finished) return;
+
+    if (this.oneShot) {
+      const barsPlayed = this.bar - this.oneShot.startBar;
+      if (barsPlayed * STEPS_PER_BAR < this.oneShot.pattern.length) return;
+      const wasEnding = this.oneShot.kind === 'ending';
+      this.oneShot = null;
+      if (wasEnding) {
+        this.finished = true;
+        return;
+      }
+    }
+
+    if (this.endingQueued) {
+      this.endingQueued = false;
+      if (this.ending) this.oneShot = { kind: 'ending', pattern: this.ending, startBar: this.bar };
+      else this.finished = true;
+      return;
+    }
+
+    const phraseEnd = (this.bar + 1) % this.fillEvery === 0;
+    if ((this.fillQueued || phraseEnd) && this.fills.length > 0) {
+      this.fillQueued = false;
+      this.oneShot = { kind: 'fill', pattern: pickRandom(this.fills, this.random), startBar: this.bar };
+    }
+  }
+}
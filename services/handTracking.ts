@@ -1,36 +1,60 @@
-
-// Access global MediaPipe variables loaded via script tags in index.html
-declare const Hands: any;
-declare const Camera: any;
+import type { Hands } from '@mediapipe/hands';
+import type { Camera } from '@mediapipe/camera_utils';
+import { HandResults } from '../types';
+import { LandmarkRecorder, LandmarkRecording } from './landmarkRecording';
+import { loadMediaPipe, locateHandsFile, MediaPipeLoadError } from './mediaPipeLoader';
 
 export class HandTracker {
-  private hands: any = null;
-  private camera: any = null;
+  private hands: Hands | null = null;
+  private camera: Camera | null = null;
   private videoElement: HTMLVideoElement | null = null;
   private isActive: boolean = false;
+  private recorder = new LandmarkRecorder();
 
   constructor(
-    onResults: (results: any) => void
-  ) {
-    this.hands = new Hands({
-      locateFile: (file: string) => {
-        return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-      }
-    });
+    private onResults: (results: HandResults) => void
+  ) {}
+
+  public get isRecording() { return this.recorder.recording; }
+
+  public startRecording() {
+    this.recorder.start();
+  }
 
-    this.hands.setOptions({
+  public stopRecording(): LandmarkRecording {
+    return this.recorder.stop();
+  }
+
+  public async start(videoElement: HTMLVideoElement) {
+    this.isActive = true;
+    this.videoElement = videoElement;
+
+    const { Hands, Camera } = await loadMediaPipe();
+    if (!this.isActive) return; // Stopped while loading
+
+    const hands = new Hands({ locateFile: locateHandsFile });
+
+    hands.setOptions({
       maxNumHands: 2,
       modelComplexity: 1,
       minDetectionConfidence: 0.5,
       minTrackingConfidence: 0.5
     });
 
-    this.hands.onResults(onResults);
-  }
+    hands.onResults((results) => {
+      this.recorder.capture(results);
+      this.onResults(results);
+    });
+    this.hands = hands;
 
-  public async start(videoElement: HTMLVideoElement) {
-    this.isActive = true;
-    this.videoElement = videoElement;
+    // Fetch the model and wasm up front so a missing asset surfaces here
+    // instead of failing silently on the first camera frame.
+    try {
+      await hands.initialize();
+    } catch (error) {
+      throw new MediaPipeLoadError("MediaPipe hand model failed to initialize", { cause: error });
+    }
+    if (!this.isActive) return;
     
     this.camera = new Camera(videoElement, {
       onFrame: async () => {
@@ -61,10 +85,8 @@ export class HandTracker {
          stream.getTracks().forEach(track => track.stop());
        }
        
-       // Stop the camera utility if method exists
-       if (this.camera && typeof this.camera.stop === 'function') {
-           this.camera.stop();
-       }
+       this.camera.stop();
+       this.camera = null;
     }
     
     if (this.hands) {
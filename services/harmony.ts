@@ -0,0 +1,108 @@
+import { ChordInfo } from '../types';
+
+// =================================================================
+// PITCH HELPERS
+// =================================================================
+
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+const LETTER_PC: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+export function pitchClassOf(name: string): number {
+  const match = /^([A-G])(#|b)?/.exec(name);
+  if (!match) throw new Error(`Invalid pitch name "${name}"`);
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  return (LETTER_PC[match[1]] + accidental + 12) % 12;
+}
+
+// Scientific pitch notation, as used by Tone ("C4" = 60)
+export function noteToMidi(note: string): number {
+  const match = /^([A-G](?:#|b)?)(-?\d+)$/.exec(note);
+  if (!match) throw new Error(`Invalid note "${note}"`);
+  return pitchClassOf(match[1]) + (parseInt(match[2], 10) + 1) * 12;
+}
+
+export function midiToNote(midi: number, preferFlats = true): string {
+  const names = preferFlats ? FLAT_NAMES : SHARP_NAMES;
+  return `${names[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+// All notes of a pitch-class set (intervals above `root`) within [low, high]
+export function voicePitchSet(root: number, intervals: number[], low: number, high: number): number[] {
+  const classes = new Set(intervals.map(i => (root + i) % 12));
+  const notes: number[] = [];
+  for (let midi = low; midi <= high; midi++) {
+    if (classes.has(((midi % 12) + 12) % 12)) notes.push(midi);
+  }
+  return notes;
+}
+
+// =================================================================
+// CHORDS & CHORD-SCALES
+// =================================================================
+
+export const CHORD_SCALES: Record<string, number[]> = {
+  ionian: [0, 2, 4, 5, 7, 9, 11],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  aeolian: [0, 2, 3, 5, 7, 8, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+  mixoBlues: [0, 2, 3, 4, 7, 9, 10], // Mixolydian with the blue third, for #9 chords
+  altered: [0, 1, 3, 4, 6, 8, 10],
+  diminished: [0, 2, 3, 5, 6, 8, 9, 11], // Whole-half
+};
+
+// Chord tones and the default chord-scale for each quality
+const QUALITIES: Record<string, { tones: number[]; scale: string }> = {
+  '': { tones: [0, 4, 7], scale: 'ionian' },
+  'm': { tones: [0, 3, 7], scale: 'aeolian' },
+  '6': { tones: [0, 4, 7, 9], scale: 'ionian' },
+  'm6': { tones: [0, 3, 7, 9], scale: 'dorian' },
+  'maj7': { tones: [0, 4, 7, 11], scale: 'ionian' },
+  'm7': { tones: [0, 3, 7, 10], scale: 'dorian' },
+  '7': { tones: [0, 4, 7, 10], scale: 'mixolydian' },
+  '9': { tones: [0, 4, 7, 10, 14], scale: 'mixolydian' },
+  '7#9': { tones: [0, 4, 7, 10, 15], scale: 'mixoBlues' },
+  '7alt': { tones: [0, 4, 10, 13, 15], scale: 'altered' },
+  'm7b5': { tones: [0, 3, 6, 10], scale: 'locrian' },
+  'dim7': { tones: [0, 3, 6, 9], scale: 'diminished' },
+};
+
+// Parses "Cm7", "Bb7", "F#m7b5" or, with an explicit chord-scale, "Cmaj7:lydian"
+export function parseChord(symbol: string): ChordInfo {
+  const [chordPart, scaleName] = symbol.split(':');
+  const match = /^([A-G](?:#|b)?)(.*)$/.exec(chordPart);
+  const quality = match ? QUALITIES[match[2]] : undefined;
+  if (!match || !quality) throw new Error(`Unknown chord "${symbol}"`);
+
+  const scale = CHORD_SCALES[scaleName ?? quality.scale];
+  if (!scale) throw new Error(`Unknown chord-scale "${scaleName}" in "${symbol}"`);
+
+  return {
+    symbol: chordPart,
+    root: pitchClassOf(match[1]),
+    tones: quality.tones,
+    scale,
+    preferFlats: !match[1].includes('#'),
+  };
+}
+
+// Lowest occurrence of the chord root at or above `low`
+export const rootAtOrAbove = (chord: ChordInfo, low: number) =>
+  low + ((chord.root - low) % 12 + 12) % 12;
+
+export interface PitchRange { low: number; high: number; }
+
+// Register spanned by a list of note names
+export function rangeOf(notes: string[]): PitchRange {
+  const midis = notes.map(noteToMidi);
+  return { low: Math.min(...midis), high: Math.max(...midis) };
+}
+
+export const voiceChordScale = (chord: ChordInfo, { low, high }: PitchRange): string[] =>
+  voicePitchSet(chord.root, chord.scale, low, high).map(m => midiToNote(m, chord.preferFlats));
+
+export const voiceChordTones = (chord: ChordInfo, { low, high }: PitchRange): string[] =>
+  voicePitchSet(chord.root, chord.tones, low, high).map(m => midiToNote(m, chord.preferFlats));
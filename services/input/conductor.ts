@@ -0,0 +1,155 @@
+import { HandSide, HandState } from '../../types';
+
+export interface TapTempoOptions {
+  minBpm: number;
+  maxBpm: number;
+  maxGapMs: number; // A longer pause starts a new run of taps
+  window: number; // Intervals the estimate is taken over
+  smoothing: number; // 0-1, how far each new estimate moves the tempo
+}
+
+const DEFAULT_TAP_TEMPO: TapTempoOptions = { minBpm: 60, maxBpm: 200, maxGapMs: 2000, window: 4, smoothing: 0.5 };
+
+// Tap-tempo estimation: the median of the last few tap intervals (so one
+// early or late tap doesn't pull the tempo), eased into the running value.
+export class TapTempo {
+  private options: TapTempoOptions;
+  private lastTap: number | null = null;
+  private intervals: number[] = [];
+  private bpm: number | null = null;
+
+  constructor(options: Partial<TapTempoOptions> = {}) {
+    this.options = { ...DEFAULT_TAP_TEMPO, ...options };
+  }
+
+  public reset() {
+    this.lastTap = null;
+    this.intervals = [];
+    this.bpm = null;
+  }
+
+  // Register a tap at `time` (ms). Returns the tempo once there are enough taps.
+  public tap(time: number): number | null {
+    const { minBpm, maxBpm, maxGapMs, window, smoothing } = this.options;
+    const last = this.lastTap;
+    this.lastTap = time;
+    if (last === null || time - last > maxGapMs) {
+      this.intervals = [];
+      return null;
+    }
+
+    this.intervals.push(time - last);
+    if (this.intervals.length > window) this.intervals.shift();
+    if (this.intervals.length < 2) return null;
+
+    const sorted = [...this.intervals].sort((a, b) => a - b);
+    const mid = sorted.length >> 1;
+    const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    const estimate = Math.max(minBpm, Math.min(maxBpm, 60000 / median));
+
+    this.bpm = this.bpm === null ? estimate : this.bpm + (estimate - this.bpm) * smoothing;
+    return this.bpm;
+  }
+}
+
+export interface ConductorOptions {
+  hand: HandSide; // The baton hand
+  minStrokeSpeed: number; // Downstroke speed (screen heights / s) that counts as a beat
+  refractoryMs: number; // Ignore a new beat this soon after the last
+  velocitySmoothing: number; // 0-1 EMA factor on wrist velocity
+  spreadRange: [number, number]; // Hand spread (0-1 of width) mapped onto swing
+  maxSwing: number;
+  swingSmoothing: number;
+}
+
+const DEFAULT_CONDUCTOR: ConductorOptions = {
+  hand: 'right',
+  minStrokeSpeed: 0.8,
+  refractoryMs: 250,
+  velocitySmoothing: 0.5,
+  spreadRange: [0.2, 0.8],
+  maxSwing: 0.75,
+  swingSmoothing: 0.1,
+};
+
+export interface ConductorUpdate {
+  bpm: number | null; // New tempo, when a beat refined it
+  swing: number | null; // New swing, while both hands are in view
+  beat: boolean; // A beat was conducted this frame
+}
+
+// Reads tempo and swing from conducting motion:
+// - each beat is the bottom of a downstroke of the baton hand's wrist (the
+//   "ictus"), fed to a TapTempo
+// - the horizontal spread between the hands sets swing: hands together play
+//   straight, arms wide swing hard
+export class Conductor {
+  private options: ConductorOptions;
+  private tapTempo: TapTempo;
+  private lastY: number | null = null;
+  private lastTime = 0;
+  private velocity = 0; // Smoothed, positive = moving down
+  private peakDownSpeed = 0; // Fastest speed in the current downstroke
+  private lastBeat = -Infinity;
+  private swing: number | null = null;
+
+  constructor(options: Partial<ConductorOptions> = {}, tapTempo: Partial<TapTempoOptions> = {}) {
+    this.options = { ...DEFAULT_CONDUCTOR, ...options };
+    this.tapTempo = new TapTempo(tapTempo);
+  }
+
+  public reset() {
+    this.tapTempo.reset();
+    this.lastY = null;
+    this.velocity = 0;
+    this.peakDownSpeed = 0;
+    this.lastBeat = -Infinity;
+    this.swing = null;
+  }
+
+  // `time` in ms
+  public update(state: HandState, time: number): ConductorUpdate {
+    const beat = this.trackBeat(state, time);
+    const bpm = beat ? this.tapTempo.tap(time) : null;
+    return { bpm, swing: this.trackSwing(state), beat };
+  }
+
+  private trackBeat(state: HandState, time: number): boolean {
+    const hand = state[this.options.hand];
+    if (!hand) {
+      this.lastY = null;
+      return false;
+    }
+    const y = (hand.wrist ?? hand).y;
+    const last = this.lastY;
+    const dt = (time - this.lastTime) / 1000;
+    this.lastY = y;
+    this.lastTime = time;
+    if (last === null || dt <= 0) return false;
+
+    const { velocitySmoothing, minStrokeSpeed, refractoryMs } = this.options;
+    this.velocity += ((y - last) / dt - this.velocity) * velocitySmoothing;
+
+    if (this.velocity > 0) {
+      this.peakDownSpeed = Math.max(this.peakDownSpeed, this.velocity);
+      return false;
+    }
+
+    // Turned upward: a beat if the downstroke was decisive
+    const stroke = this.peakDownSpeed;
+    this.peakDownSpeed = 0;
+    if (stroke < minStrokeSpeed || time - this.lastBeat < refractoryMs) return false;
+    this.lastBeat = time;
+    return true;
+  }
+
+  private trackSwing({ left, right }: HandState): number | null {
+    if (!left || !right) return null;
+    const { spreadRange: [near, far], maxSwing, swingSmoothing } = this.options;
+    const spread = Math.abs(right.x - left.x);
+    const t = Math.max(0, Math.min(1, (spread - near) / (far - near)));
+    const target = t * maxSwing;
+    this.swing = this.swing === null ? target : this.swing + (target - this.swing) * swingSmoothing;
+    return this.swing;
+  }
+}
@@ -0,0 +1,76 @@
+import { HandCoordinates, NoteDynamics } from '../../types';
+
+export interface HandDynamicsOptions {
+  strikeSpeed: number; // Fingertip speed (screen units / s) that plays full force
+  peakDecay: number; // Per second; how long a strike's speed is remembered
+  sizeRange: [number, number]; // Hand size (wrist to knuckle) from far to near the camera
+  leanDepth: number; // Fingertip z lean toward the camera that counts as fully pushed
+  panWidth: number; // 0-1, how far across the stereo field x reaches
+}
+
+const DEFAULT_OPTIONS: HandDynamicsOptions = {
+  strikeSpeed: 2.5,
+  peakDecay: 6,
+  sizeRange: [0.06, 0.2],
+  leanDepth: 0.15,
+  panWidth: 0.7,
+};
+
+// Depth used when the source has no z or size (pointer, keyboard)
+const NEUTRAL_DEPTH = 0.5;
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Dynamics for one hand: a fast strike plays loud, a gentle float plays soft,
+// and pushing toward the camera swells. Speed is held as a decaying peak so a
+// strike still counts on the 16th the note lands on, a frame or two later.
+export class HandDynamics {
+  private options: HandDynamicsOptions;
+  private last: { x: number; y: number; time: number } | null = null;
+  private peakSpeed = 0;
+
+  constructor(options: Partial<HandDynamicsOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  public reset() {
+    this.last = null;
+    this.peakSpeed = 0;
+  }
+
+  // `time` in ms. Pass null when the hand is lost.
+  public update(hand: HandCoordinates | null, time: number): NoteDynamics {
+    if (!hand) {
+      this.reset();
+      return { velocity: 0, filterAmount: 0, pan: 0, speed: 0, depth: NEUTRAL_DEPTH };
+    }
+    const { strikeSpeed, peakDecay, panWidth } = this.options;
+
+    const last = this.last;
+    const dt = last ? (time - last.time) / 1000 : 0;
+    this.peakSpeed *= Math.exp(-peakDecay * dt);
+    if (last && dt > 0) {
+      const speed = Math.hypot(hand.x - last.x, hand.y - last.y) / dt;
+      this.peakSpeed = Math.max(this.peakSpeed, speed);
+    }
+    this.last = { x: hand.x, y: hand.y, time };
+
+    const force = clamp01(this.peakSpeed / strikeSpeed);
+    const depth = this.depthOf(hand);
+    return {
+      velocity: clamp01(0.2 + force * 0.5 + depth * 0.3),
+      filterAmount: clamp01(force * 0.6 + depth * 0.4),
+      pan: (clamp01(hand.x) * 2 - 1) * panWidth,
+      speed: force,
+      depth,
+    };
+  }
+
+  // 0 (far) to 1 (near), from hand size plus the fingertip leaning in
+  private depthOf({ z, size }: HandCoordinates): number {
+    if (size === undefined) return NEUTRAL_DEPTH;
+    const [far, near] = this.options.sizeRange;
+    const lean = z === undefined ? 0 : clamp01(-z / this.options.leanDepth);
+    return clamp01((size - far) / (near - far) * 0.8 + lean * 0.2);
+  }
+}
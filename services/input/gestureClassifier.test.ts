@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { HandCoordinates, Landmark } from '../../types';
+import { classifyPose, GestureBinding, GestureClassifier, GestureEvent, HandPose, routeGesture, scorePoses } from './gestureClassifier';
+
+const FRAME_MS = 1000 / 30;
+
+// A right hand seen upright, palm to the camera: the fingers listed in
+// `extended` point up, the rest curl in; the thumb is tucked, out to the
+// side, up, or touching the index tip
+function hand(extended: ('index' | 'middle' | 'ring' | 'pinky')[], thumb: 'tucked' | 'out' | 'up' | 'pinch'): Landmark[] {
+  const at = (x: number, y: number): Landmark => ({ x, y, z: 0 });
+  const landmarks: Landmark[] = [at(0.5, 0.9), at(0.42, 0.82), at(0.38, 0.76), at(0, 0), at(0, 0)];
+  (['index', 'middle', 'ring', 'pinky'] as const).forEach((finger, i) => {
+    const x = 0.44 + i * 0.04;
+    landmarks.push(at(x, 0.7)); // Knuckle
+    landmarks.push(...(extended.includes(finger)
+      ? [at(x, 0.58), at(x, 0.51), at(x, 0.45)]
+      : [at(x, 0.6), at(x, 0.64), at(x, 0.68)]));
+  });
+  const tip = { tucked: at(0.46, 0.7), out: at(0.28, 0.7), up: at(0.38, 0.56), pinch: landmarks[8] }[thumb];
+  landmarks[3] = at((landmarks[2].x + tip.x) / 2, (landmarks[2].y + tip.y) / 2);
+  landmarks[4] = tip;
+  return landmarks;
+}
+
+const POSES: Record<HandPose, Landmark[]> = {
+  fist: hand([], 'tucked'),
+  open: hand(['index', 'middle', 'ring', 'pinky'], 'out'),
+  point: hand(['index'], 'tucked'),
+  peace: hand(['index', 'middle'], 'tucked'),
+  thumbsUp: hand([], 'up'),
+  pinch: hand(['middle', 'ring', 'pinky'], 'pinch'),
+};
+
+const still = (landmarks?: Landmark[]): HandCoordinates => ({ x: 0.5, y: 0.5, size: 0.2, landmarks });
+
+// Feeds `frames` (one per camera frame from `start`) and collects what fires
+function play(classifier: GestureClassifier, frames: (HandCoordinates | null)[], start = 0): GestureEvent[] {
+  return frames.flatMap((coords, i) => classifier.update(coords, start + i * FRAME_MS) ?? []);
+}
+
+const hold = (coords: HandCoordinates | null, ms: number) => Array.from({ length: Math.round(ms / FRAME_MS) }, () => coords);
+
+// The hand's path over `ms`, one point per frame (t from 0 to 1)
+const path = (ms: number, at: (t: number) => Partial<HandCoordinates>): HandCoordinates[] => {
+  const count = Math.round(ms / FRAME_MS);
+  return Array.from({ length: count + 1 }, (_, i) => ({ ...still(), ...at(i / count) }));
+};
+
+const swipe = (from: number, to: number) => path(200, t => ({ x: from + (to - from) * t }));
+const circle = path(1000, t => ({ x: 0.5 + 0.1 * Math.cos(2 * Math.PI * t), y: 0.5 + 0.1 * Math.sin(2 * Math.PI * t) }));
+const tap = path(200, t => ({ size: 0.2 * (1 + 0.3 * t) }));
+
+describe('scorePoses', () => {
+  it('recognizes each pose from its landmarks', () => {
+    for (const [pose, landmarks] of Object.entries(POSES)) {
+      expect(classifyPose(landmarks)).toEqual({ pose, confidence: expect.any(Number) });
+      expect(classifyPose(landmarks)!.confidence).toBeGreaterThan(0.6);
+    }
+  });
+
+  it('needs a whole hand', () => {
+    expect(scorePoses(POSES.fist.slice(0, 20))).toEqual([]);
+    expect(classifyPose([])).toBeNull();
+  });
+});
+
+describe('GestureClassifier', () => {
+  it('fires each pose once it has been held', () => {
+    for (const [pose, landmarks] of Object.entries(POSES)) {
+      const events = play(new GestureClassifier('right'), hold(still(landmarks), 1500));
+      expect(events.map(e => e.gesture)).toEqual([pose]);
+      expect(events[0].time).toBeGreaterThanOrEqual(300);
+      expect(events[0].hand).toBe('right');
+    }
+  });
+
+  it('ignores a pose held too briefly', () => {
+    const events = play(new GestureClassifier('right'), [...hold(still(POSES.peace), 200), ...hold(still(POSES.open), 1000)]);
+    expect(events.map(e => e.gesture)).toEqual(['open']);
+  });
+
+  it('fires each motion gesture once', () => {
+    const motions: [string, HandCoordinates[]][] = [
+      ['swipeRight', swipe(0.3, 0.7)],
+      ['swipeLeft', swipe(0.7, 0.3)],
+      ['circle', circle],
+      ['tap', tap],
+    ];
+    for (const [gesture, frames] of motions) {
+      const events = play(new GestureClassifier('left'), [...hold(still(), 100), ...frames, ...hold(frames[frames.length - 1], 1000)]);
+      expect(events.map(e => e.gesture)).toEqual([gesture]);
+    }
+  });
+
+  it('does not fire a pose again until the hand leaves it', () => {
+    const classifier = new GestureClassifier('right');
+    const fist = still(POSES.fist);
+    expect(play(classifier, hold(fist, 3000)).length).toBe(1);
+    expect(play(classifier, [...hold(still(POSES.open), 100), ...hold(fist, 1000)], 3000).map(e => e.gesture)).toEqual(['fist']);
+    expect(play(classifier, [null, ...hold(fist, 1000)], 4100).map(e => e.gesture)).toEqual(['fist']); // Lost and found again
+  });
+
+  it('holds off motion gestures for the cooldown', () => {
+    const classifier = new GestureClassifier('right', { cooldownMs: 600 });
+    const there = swipe(0.3, 0.7), back = swipe(0.7, 0.3);
+    const start = play(classifier, [...there, ...back]).map(e => e.gesture);
+    expect(start).toEqual(['swipeRight']); // The swipe back came too soon
+    const later = play(classifier, [...hold(there[there.length - 1], 600), ...back], 1000).map(e => e.gesture);
+    expect(later).toEqual(['swipeLeft']);
+  });
+});
+
+describe('routeGesture', () => {
+  const event = (gesture: GestureEvent['gesture'], hand: GestureEvent['hand'], confidence = 0.9): GestureEvent =>
+    ({ gesture, hand, confidence, time: 0 });
+
+  it('takes the first binding that matches', () => {
+    const bindings: GestureBinding[] = [
+      { gesture: 'circle', hand: 'left', action: 'fill' },
+      { gesture: 'circle', minConfidence: 0.95, action: 'outro' },
+      { gesture: 'circle', action: 'breakdown' },
+      { gesture: 'circle', action: 'nextSection' },
+    ];
+    expect(routeGesture(event('circle', 'left'), bindings)).toBe('fill');
+    expect(routeGesture(event('circle', 'right', 0.99), bindings)).toBe('outro');
+    expect(routeGesture(event('circle', 'right'), bindings)).toBe('breakdown'); // Too unsure for the outro
+    expect(routeGesture(event('tap', 'right'), bindings)).toBeNull();
+  });
+
+  it('routes the default bindings by hand', () => {
+    expect(routeGesture(event('swipeRight', 'right'))).toBe('nextGroove');
+    expect(routeGesture(event('swipeRight', 'left'))).toBe('muteBass');
+    expect(routeGesture(event('fist', 'left'))).toBeNull();
+  });
+});
@@ -0,0 +1,234 @@
+import { EngineAction, HandCoordinates, HandSide, Landmark } from '../../types';
+import { getPinchRatio } from '../pinchDetector';
+
+export type HandPose = 'fist' | 'open' | 'point' | 'peace' | 'thumbsUp' | 'pinch';
+export type MotionGesture = 'swipeLeft' | 'swipeRight' | 'circle' | 'tap';
+export type HandGesture = HandPose | MotionGesture;
+
+export interface GestureEvent {
+  hand: HandSide;
+  gesture: HandGesture;
+  confidence: number; // 0-1
+  time: number; // ms
+}
+
+export interface GestureClassifierOptions {
+  minConfidence: number; // Poses scoring below this are ignored
+  poseHoldMs: number; // A pose must be held this long before it fires
+  cooldownMs: number; // After a motion gesture, ignore motion this long
+  swipeDistance: number; // Horizontal travel (0-1 of width) that counts as a swipe...
+  swipeMs: number; // ...within this window
+  circleMs: number; // A full loop must be drawn within this window
+  circleMinRadius: number;
+  tapGrowth: number; // Hand size growth (ratio) that counts as a tap toward the camera...
+  tapMs: number; // ...within this window
+}
+
+const DEFAULT_OPTIONS: GestureClassifierOptions = {
+  minConfidence: 0.6,
+  poseHoldMs: 300,
+  cooldownMs: 600,
+  swipeDistance: 0.25,
+  swipeMs: 300,
+  circleMs: 1500,
+  circleMinRadius: 0.04,
+  tapGrowth: 1.2,
+  tapMs: 250,
+};
+
+// =================================================================
+// POSES (from the 21 landmarks)
+// =================================================================
+
+const WRIST = 0;
+const THUMB_MCP = 2;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const MIDDLE_MCP = 9;
+// [pip, tip] for index, middle, ring and pinky
+const FINGERS: [number, number][] = [[6, 8], [10, 12], [14, 16], [18, 20]];
+
+const dist = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// 0 (curled) to 1 (straight): a straight finger's tip is well past its middle
+// joint as seen from the wrist, a curled one folds back inside it
+const extension = (landmarks: Landmark[], [pip, tip]: [number, number]) =>
+  clamp01((dist(landmarks[WRIST], landmarks[tip]) / dist(landmarks[WRIST], landmarks[pip]) - 0.9) / 0.5);
+
+// Scores each pose 0-1 with fuzzy AND (min over the conditions).
+// Listed from most to least specific; on a tie the earlier pose wins.
+export function scorePoses(landmarks: Landmark[]): [HandPose, number][] {
+  if (!landmarks || landmarks.length < 21) return [];
+  const palm = dist(landmarks[WRIST], landmarks[MIDDLE_MCP]);
+  if (palm <= 0) return [];
+
+  const [index, middle, ring, pinky] = FINGERS.map(finger => extension(landmarks, finger));
+  const thumbOut = clamp01((dist(landmarks[THUMB_TIP], landmarks[INDEX_MCP]) / palm - 0.4) / 0.4);
+  const thumbDir = { x: landmarks[THUMB_TIP].x - landmarks[THUMB_MCP].x, y: landmarks[THUMB_TIP].y - landmarks[THUMB_MCP].y };
+  const thumbUpness = -thumbDir.y / (Math.hypot(thumbDir.x, thumbDir.y) || 1); // Image y points down
+  const thumbUp = Math.min(thumbOut, clamp01((thumbUpness - 0.5) / 0.4));
+  const pinched = clamp01(1 - (getPinchRatio(landmarks) - 0.25) / 0.25);
+  const fist = Math.min(1 - index, 1 - middle, 1 - ring, 1 - pinky, 1 - thumbUp);
+
+  return [
+    ['thumbsUp', Math.min(thumbUp, 1 - index, 1 - middle, 1 - ring, 1 - pinky)],
+    ['pinch', Math.min(pinched, 1 - fist)],
+    ['peace', Math.min(index, middle, 1 - ring, 1 - pinky)],
+    ['point', Math.min(index, 1 - middle, 1 - ring, 1 - pinky)],
+    ['fist', fist],
+    ['open', Math.min(index, middle, ring, pinky, thumbOut)],
+  ];
+}
+
+export function classifyPose(landmarks: Landmark[]): { pose: HandPose; confidence: number } | null {
+  let best: { pose: HandPose; confidence: number } | null = null;
+  for (const [pose, confidence] of scorePoses(landmarks)) {
+    if (!best || confidence > best.confidence) best = { pose, confidence };
+  }
+  return best;
+}
+
+// =================================================================
+// CLASSIFIER (poses + motion, debounced)
+// =================================================================
+
+interface MotionSample { x: number; y: number; size?: number; time: number; }
+
+// Recognizes one hand's poses and motion gestures and reports each as a
+// single event: a pose once it has been held for `poseHoldMs` (and not again
+// until the hand leaves it), a motion gesture at most once per `cooldownMs`.
+// Motion works from x/y alone, so swipes and circles also come from the
+// pointer and keyboard; poses and taps need camera landmarks.
+export class GestureClassifier {
+  private options: GestureClassifierOptions;
+  private pose: HandPose | null = null;
+  private poseStart = 0;
+  private poseFired = false;
+  private samples: MotionSample[] = [];
+  private cooldownUntil = 0;
+
+  constructor(private hand: HandSide, options: Partial<GestureClassifierOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  public reset() {
+    this.pose = null;
+    this.poseFired = false;
+    this.samples = [];
+  }
+
+  // `time` in ms. Pass null when the hand is lost.
+  public update(coords: HandCoordinates | null, time: number): GestureEvent | null {
+    if (!coords) {
+      this.reset();
+      return null;
+    }
+    return this.updateMotion(coords, time) ?? this.updatePose(coords, time);
+  }
+
+  private event(gesture: HandGesture, confidence: number, time: number): GestureEvent {
+    return { hand: this.hand, gesture, confidence: clamp01(confidence), time };
+  }
+
+  private updatePose({ landmarks }: HandCoordinates, time: number): GestureEvent | null {
+    const best = landmarks ? classifyPose(landmarks) : null;
+    const pose = best && best.confidence >= this.options.minConfidence ? best.pose : null;
+    if (pose !== this.pose) {
+      this.pose = pose;
+      this.poseStart = time;
+      this.poseFired = false;
+      return null;
+    }
+    if (!pose || this.poseFired || time - this.poseStart < this.options.poseHoldMs) return null;
+    this.poseFired = true;
+    return this.event(pose, best!.confidence, time);
+  }
+
+  private updateMotion({ x, y, size }: HandCoordinates, time: number): GestureEvent | null {
+    const { cooldownMs, circleMs } = this.options;
+    this.samples.push({ x, y, size, time });
+    while (this.samples.length > 0 && time - this.samples[0].time > circleMs) this.samples.shift();
+    if (time < this.cooldownUntil) return null;
+
+    const event = this.detectSwipe(time) ?? this.detectTap(time) ?? this.detectCircle(time);
+    if (event) {
+      this.cooldownUntil = time + cooldownMs;
+      this.samples = [];
+    }
+    return event;
+  }
+
+  private detectSwipe(time: number): GestureEvent | null {
+    const { swipeDistance, swipeMs } = this.options;
+    const recent = this.samples.filter(s => time - s.time <= swipeMs);
+    if (recent.length < 2) return null;
+    const first = recent[0], last = recent[recent.length - 1];
+    const dx = last.x - first.x, dy = last.y - first.y;
+    if (Math.abs(dx) < swipeDistance || Math.abs(dy) > Math.abs(dx) * 0.5) return null;
+    return this.event(dx > 0 ? 'swipeRight' : 'swipeLeft', Math.abs(dx) / (swipeDistance * 1.6), time);
+  }
+
+  private detectTap(time: number): GestureEvent | null {
+    const { tapGrowth, tapMs } = this.options;
+    const sizes = this.samples.filter(s => time - s.time <= tapMs && s.size !== undefined).map(s => s.size!);
+    if (sizes.length < 2) return null;
+    const growth = sizes[sizes.length - 1] / Math.min(...sizes);
+    if (!(growth >= tapGrowth)) return null;
+    return this.event('tap', (growth - 1) / ((tapGrowth - 1) * 1.5), time);
+  }
+
+  // Sums the angle swept around the path's centre; a full turn is a circle
+  private detectCircle(time: number): GestureEvent | null {
+    const samples = this.samples;
+    if (samples.length < 8) return null;
+    const cx = samples.reduce((sum, s) => sum + s.x, 0) / samples.length;
+    const cy = samples.reduce((sum, s) => sum + s.y, 0) / samples.length;
+    const radius = samples.reduce((sum, s) => sum + Math.hypot(s.x - cx, s.y - cy), 0) / samples.length;
+    if (radius < this.options.circleMinRadius) return null;
+
+    let swept = 0;
+    for (let i = 1; i < samples.length; i++) {
+      let step = Math.atan2(samples[i].y - cy, samples[i].x - cx) - Math.atan2(samples[i - 1].y - cy, samples[i - 1].x - cx);
+      if (step > Math.PI) step -= 2 * Math.PI;
+      if (step < -Math.PI) step += 2 * Math.PI;
+      swept += step;
+    }
+    if (Math.abs(swept) < 2 * Math.PI * 0.9) return null;
+    return this.event('circle', Math.abs(swept) / (2 * Math.PI), time);
+  }
+}
+
+// =================================================================
+// ROUTING
+// =================================================================
+
+export interface GestureBinding {
+  gesture: HandGesture;
+  hand?: HandSide; // Either hand when omitted
+  minConfidence?: number;
+  action: EngineAction;
+}
+
+// Poses that happen anyway while playing (fist, open palm, pinch) are left
+// unbound so performing doesn't set off actions.
+export const DEFAULT_GESTURE_BINDINGS: GestureBinding[] = [
+  { gesture: 'swipeRight', hand: 'right', action: 'nextGroove' },
+  { gesture: 'swipeLeft', hand: 'right', action: 'previousGroove' },
+  { gesture: 'circle', hand: 'left', action: 'fill' },
+  { gesture: 'thumbsUp', action: 'nextSection' },
+  { gesture: 'peace', action: 'breakdown' },
+  { gesture: 'tap', hand: 'left', action: 'loopRecord' },
+  { gesture: 'swipeLeft', hand: 'left', action: 'muteDrums' },
+  { gesture: 'swipeRight', hand: 'left', action: 'muteBass' },
+];
+
+// The action bound to `event`, if any (first matching binding wins)
+export function routeGesture(event: GestureEvent, bindings: GestureBinding[] = DEFAULT_GESTURE_BINDINGS): EngineAction | null {
+  const binding = bindings.find(b =>
+    b.gesture === event.gesture &&
+    (b.hand === undefined || b.hand === event.hand) &&
+    event.confidence >= (b.minConfidence ?? 0)
+  );
+  return binding?.action ?? null;
+}
@@ -0,0 +1,113 @@
+import { HandAssignment, Handedness, Landmark } from '../../types';
+
+type HandLabel = Handedness['label'];
+
+const WRIST = 0;
+
+const HISTORY_LENGTH = 5; // Wrist samples kept per hand for velocity
+const TRACK_MEMORY_MS = 500; // After this long unseen, a hand's position is forgotten
+const LABEL_PENALTY = 0.15; // Cost (in normalized image units) of overruling MediaPipe's label
+const SIDE_PENALTY = 0.05; // Tie-breaker: left instrument prefers the left of the screen
+const UNKNOWN_POSITION_COST = 0.2; // Distance assumed for a hand with no recent history
+const SIDE_SWITCH_MARGIN = 0.1; // Screen-side mode: how far past the middle a lone hand must go to switch
+
+export interface Detection {
+  landmarks: Landmark[];
+  handedness: Handedness;
+}
+
+interface WristSample { x: number; y: number; t: number; }
+
+// Keeps each physical hand bound to the same instrument across frames.
+// MediaPipe's handedness label is only a hint: a hand keeps its identity
+// as long as its wrist continues along its recent path, so a mislabelled
+// frame (or both hands labelled alike) can't swap the instruments.
+export class HandIdentityTracker {
+  private history: Record<HandLabel, WristSample[]> = { Left: [], Right: [] };
+
+  constructor(private mode: HandAssignment = 'handedness') {}
+
+  public setMode(mode: HandAssignment) {
+    this.mode = mode;
+    this.reset();
+  }
+
+  public reset() {
+    this.history = { Left: [], Right: [] };
+  }
+
+  // Returns the detections relabelled with their stable identity.
+  // At most one hand per label; extra detections are dropped.
+  public assign(detections: Detection[], time: number): Detection[] {
+    const candidates = [...detections]
+      .sort((a, b) => b.handedness.score - a.handedness.score)
+      .slice(0, 2);
+
+    const labels = this.chooseLabels(candidates, time);
+    return candidates.map((detection, i) => {
+      const label = labels[i];
+      const wrist = detection.landmarks[WRIST];
+      const samples = this.history[label];
+      samples.push({ x: wrist.x, y: wrist.y, t: time });
+      if (samples.length > HISTORY_LENGTH) samples.shift();
+      return { landmarks: detection.landmarks, handedness: { ...detection.handedness, label } };
+    });
+  }
+
+  private chooseLabels(candidates: Detection[], time: number): HandLabel[] {
+    if (candidates.length === 0) return [];
+    const options: HandLabel[][] = candidates.length === 1
+      ? [['Left'], ['Right']]
+      : [['Left', 'Right'], ['Right', 'Left']];
+
+    let best = options[0];
+    let bestCost = Infinity;
+    for (const option of options) {
+      const cost = option.reduce((sum, label, i) => sum + this.cost(candidates[i], label, time), 0);
+      if (cost < bestCost) { best = option; bestCost = cost; }
+    }
+    return best;
+  }
+
+  private cost(detection: Detection, label: HandLabel, time: number): number {
+    const wrist = detection.landmarks[WRIST];
+    // The display is mirrored, so the left of the screen is high raw x
+    const screenX = 1 - wrist.x;
+    const onLeft = screenX < 0.5;
+
+    if (this.mode === 'screenSide') {
+      // A lone hand keeps its instrument until it is clearly across the middle
+      const predicted = this.predict(label, time);
+      if (predicted && Math.abs(screenX - 0.5) < SIDE_SWITCH_MARGIN) {
+        return Math.hypot(predicted.x - wrist.x, predicted.y - wrist.y);
+      }
+      return (label === 'Left') === onLeft ? 0 : 1;
+    }
+
+    const predicted = this.predict(label, time);
+    const distance = predicted
+      ? Math.hypot(predicted.x - wrist.x, predicted.y - wrist.y)
+      : UNKNOWN_POSITION_COST;
+    const labelCost = detection.handedness.label === label ? 0 : LABEL_PENALTY;
+    const sideCost = (label === 'Left') === onLeft ? 0 : SIDE_PENALTY;
+    return distance + labelCost + sideCost;
+  }
+
+  // Constant-velocity prediction from the wrist history
+  private predict(label: HandLabel, time: number): { x: number; y: number } | null {
+    const samples = this.history[label];
+    const last = samples[samples.length - 1];
+    if (!last || time - last.t > TRACK_MEMORY_MS || time < last.t) {
+      this.history[label] = [];
+      return null;
+    }
+    const first = samples[0];
+    const span = last.t - first.t;
+    if (span <= 0) return { x: last.x, y: last.y };
+    const dt = time - last.t;
+    return {
+      x: last.x + ((last.x - first.x) / span) * dt,
+      y: last.y + ((last.y - first.y) / span) * dt,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { HandAssignment, HandCoordinates, HandResults, HandState, Landmark } from '../../types';
+import { PinchDetector } from '../pinchDetector';
+import { LandmarkFilterOptions, LandmarkFilterStage } from './landmarkFilter';
+import { HandIdentityTracker } from './handIdentity';
+
+export const getHandOpenness = (landmarks: Landmark[]): number => {
+  if (!landmarks || landmarks.length < 21) return 0;
+  const wrist = landmarks[0];
+  const tips = [8, 12, 16, 20]; 
+  let totalDist = 0;
+  tips.forEach(idx => {
+      const tip = landmarks[idx];
+      totalDist += Math.sqrt(Math.pow(tip.x - wrist.x, 2) + Math.pow(tip.y - wrist.y, 2));
+  });
+  const avgDist = totalDist / 4;
+  const openness = (avgDist - 0.15) / 0.25;
+  return Math.max(0, Math.min(1, openness));
+};
+
+// Turns raw MediaPipe results into HandState. Stateful (smoothing, pinch
+// hysteresis), so use one instance per results stream.
+export class HandResultsProcessor {
+  private pinchDetector = new PinchDetector();
+  private identity: HandIdentityTracker;
+  private filter: LandmarkFilterStage;
+
+  constructor(filterOptions: Partial<LandmarkFilterOptions> = {}, assignment: HandAssignment = 'handedness') {
+    this.identity = new HandIdentityTracker(assignment);
+    this.filter = new LandmarkFilterStage(filterOptions, this.identity);
+  }
+
+  public setAssignment(assignment: HandAssignment) {
+    this.identity.setMode(assignment);
+  }
+
+  public setFilterOptions(options: Partial<LandmarkFilterOptions>) {
+    this.filter.setOptions(options);
+  }
+
+  // `time` in ms; pass the recorded timestamp when replaying so results are deterministic
+  public process(rawResults: HandResults, time: number = performance.now()): HandState {
+    const results = this.filter.process(rawResults, time);
+    let left: HandCoordinates | null = null, right: HandCoordinates | null = null, leftSqueeze = 0, rightSqueeze = 0;
+    let isLeftPinching = false, isRightPinching = false;
+
+    if (results.multiHandLandmarks) {
+      for (const [index, landmarks] of results.multiHandLandmarks.entries()) {
+        const isRight = results.multiHandedness?.[index]?.label === 'Right';
+        const tip = landmarks[8]; 
+        const wrist = landmarks[0];
+        const knuckle = landmarks[9];
+        // Map to 0-1 range (Mirror horizontal)
+        const coords = {
+          x: 1 - tip.x, y: tip.y, z: tip.z,
+          size: Math.hypot(knuckle.x - wrist.x, knuckle.y - wrist.y),
+          wrist: { x: 1 - wrist.x, y: wrist.y },
+          landmarks,
+        };
+        
+        const openness = getHandOpenness(landmarks);
+        const squeeze = 1.0 - openness;
+
+        if (isRight) {
+          right = coords; rightSqueeze = squeeze;
+          isRightPinching = this.pinchDetector.update('right', landmarks);
+        } else {
+          left = coords; leftSqueeze = squeeze;
+          isLeftPinching = this.pinchDetector.update('left', landmarks);
+        }
+      }
+    }
+    if (!right) this.pinchDetector.release('right');
+    if (!left) this.pinchDetector.release('left');
+
+    return { left, right, isLeftPinching, isRightPinching, leftSqueeze, rightSqueeze };
+  }
+
+  public reset() {
+    this.pinchDetector.reset();
+    this.filter.reset();
+  }
+}
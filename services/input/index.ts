@@ -0,0 +1,57 @@
+import { HandAssignment } from '../../types';
+import { LandmarkRecording } from '../landmarkRecording';
+import { KeyboardInputSource } from './keyboardSource';
+import { MediaPipeInputSource } from './mediaPipeSource';
+import { PointerInputSource } from './pointerSource';
+import { ReplayInputSource } from './replaySource';
+import { HandInputSource, HandStateListener, InputSourceKind } from './types';
+import { LandmarkFilterOptions } from './landmarkFilter';
+
+export interface InputSourceOptions {
+  videoElement: HTMLVideoElement; // camera
+  element: HTMLElement; // pointer target
+  recording: LandmarkRecording | null; // replay
+  filter?: Partial<LandmarkFilterOptions>; // camera & replay landmark smoothing
+  assignment?: HandAssignment; // camera & replay hand-to-instrument binding
+}
+
+export function createInputSource(
+  kind: InputSourceKind,
+  options: InputSourceOptions,
+  onState: HandStateListener
+): HandInputSource {
+  switch (kind) {
+    case 'camera':
+      return new MediaPipeInputSource(options.videoElement, onState, options.filter, options.assignment);
+    case 'pointer':
+      return new PointerInputSource(options.element, onState);
+    case 'keyboard':
+      return new KeyboardInputSource(onState);
+    case 'replay':
+      if (!options.recording) throw new Error("Replay input needs a landmark recording");
+      return new ReplayInputSource(options.recording, onState, { loop: true }, options.filter, options.assignment);
+  }
+}
+
+export const INPUT_SOURCE_LABELS: Record<InputSourceKind, string> = {
+  camera: 'CAMERA',
+  pointer: 'MOUSE / TOUCH',
+  keyboard: 'KEYBOARD',
+  replay: 'REPLAY',
+};
+
+export { MediaPipeInputSource, PointerInputSource, KeyboardInputSource, ReplayInputSource };
+export { HandResultsProcessor, getHandOpenness } from './handResults';
+export { HandIdentityTracker } from './handIdentity';
+export { PoseGestureDetector } from './poseGestures';
+export { Conductor, TapTempo } from './conductor';
+export { HandDynamics } from './dynamics';
+export { GestureClassifier, classifyPose, scorePoses, routeGesture, DEFAULT_GESTURE_BINDINGS } from './gestureClassifier';
+export type { GestureBinding, GestureClassifierOptions, GestureEvent, HandGesture, HandPose, MotionGesture } from './gestureClassifier';
+export type { HandDynamicsOptions } from './dynamics';
+export type { ConductorOptions, ConductorUpdate, TapTempoOptions } from './conductor';
+export type { PoseGesture, PoseGestureOptions } from './poseGestures';
+export { OneEuroFilter, LandmarkFilterStage, filterLandmarkFrames, DEFAULT_LANDMARK_FILTER } from './landmarkFilter';
+export type { LandmarkFilterOptions } from './landmarkFilter';
+export { EMPTY_HAND_STATE } from './types';
+export type { HandInputSource, HandStateListener, InputSourceKind } from './types';
@@ -0,0 +1,111 @@
+import { HandSide, HandState } from '../../types';
+import { HandInputSource, HandStateListener } from './types';
+
+interface KeyHand {
+  x: number;
+  y: number;
+  isPinching: boolean;
+  squeeze: number;
+}
+
+interface KeyLayout {
+  up: string; down: string; left: string; right: string;
+  pinch: string;
+  squeeze: string;
+}
+
+// KeyboardEvent.code values, so the layout is position-based on any locale
+const LAYOUT: Record<HandSide, KeyLayout> = {
+  left: { up: 'KeyW', down: 'KeyS', left: 'KeyA', right: 'KeyD', pinch: 'KeyE', squeeze: 'KeyQ' },
+  right: { up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight', pinch: 'Enter', squeeze: 'ShiftRight' },
+};
+
+const MOVE_SPEED = 0.8; // Screen fractions per second
+const SQUEEZE_SPEED = 4; // Full fist in a quarter second
+
+// Both hands are always present: WASD moves the left hand (E pinch, Q squeeze),
+// the arrow keys move the right hand (Enter pinch, Right Shift squeeze).
+export class KeyboardInputSource implements HandInputSource {
+  public readonly kind = 'keyboard';
+  private held = new Set<string>();
+  private hands: Record<HandSide, KeyHand> = this.initialHands();
+  private frameId: number | null = null;
+  private lastTime = 0;
+
+  constructor(private onState: HandStateListener) {}
+
+  public async start() {
+    this.hands = this.initialHands();
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+    this.lastTime = performance.now();
+    this.frameId = requestAnimationFrame(this.tick);
+  }
+
+  public stop() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.handleBlur);
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.held.clear();
+  }
+
+  private initialHands(): Record<HandSide, KeyHand> {
+    return {
+      left: { x: 0.25, y: 0.5, isPinching: false, squeeze: 0 },
+      right: { x: 0.75, y: 0.5, isPinching: false, squeeze: 0 },
+    };
+  }
+
+  private tick = (now: number) => {
+    const dt = Math.min(0.1, (now - this.lastTime) / 1000);
+    this.lastTime = now;
+    (['left', 'right'] as HandSide[]).forEach(side => this.moveHand(side, dt));
+    this.onState(this.getState());
+    this.frameId = requestAnimationFrame(this.tick);
+  };
+
+  private moveHand(side: HandSide, dt: number) {
+    const keys = LAYOUT[side];
+    const hand = this.hands[side];
+    const axis = (neg: string, pos: string) => (this.held.has(pos) ? 1 : 0) - (this.held.has(neg) ? 1 : 0);
+    const clamp = (v: number) => Math.max(0, Math.min(1, v));
+
+    hand.x = clamp(hand.x + axis(keys.left, keys.right) * MOVE_SPEED * dt);
+    hand.y = clamp(hand.y + axis(keys.up, keys.down) * MOVE_SPEED * dt);
+    hand.isPinching = this.held.has(keys.pinch);
+    hand.squeeze = clamp(hand.squeeze + (this.held.has(keys.squeeze) ? 1 : -1) * SQUEEZE_SPEED * dt);
+  }
+
+  private getState(): HandState {
+    const { left, right } = this.hands;
+    return {
+      left: { x: left.x, y: left.y },
+      right: { x: right.x, y: right.y },
+      isLeftPinching: left.isPinching,
+      isRightPinching: right.isPinching,
+      leftSqueeze: left.squeeze,
+      rightSqueeze: right.squeeze,
+    };
+  }
+
+  private isBound(code: string) {
+    return Object.values(LAYOUT).some(layout => Object.values(layout).includes(code));
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (!this.isBound(e.code)) return;
+    e.preventDefault(); // Keep arrows from scrolling the page
+    this.held.add(e.code);
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    this.held.delete(e.code);
+  };
+
+  private handleBlur = () => {
+    this.held.clear();
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Handedness, Landmark } from '../../types';
+import { LandmarkFrame } from '../landmarkRecording';
+import { createRandom } from '../random';
+import { filterLandmarkFrames, OneEuroFilter } from './landmarkFilter';
+
+const FRAME_MS = 1000 / 30;
+
+// 21 landmarks fanned out around (x, y), as a recording stores them
+const hand = (x: number, y: number): Landmark[] =>
+  Array.from({ length: 21 }, (_, i) => ({ x: x + (i % 5) * 0.01, y: y - Math.floor(i / 5) * 0.02, z: -0.01 * i }));
+
+const right = (score = 0.95): Handedness => ({ label: 'Right', score });
+
+// A take of `count` frames; `at` places the right hand for each (null = not seen)
+const recording = (count: number, at: (i: number) => [number, number] | null, score?: number): LandmarkFrame[] =>
+  Array.from({ length: count }, (_, i) => {
+    const position = at(i);
+    return {
+      t: i * FRAME_MS,
+      multiHandLandmarks: position ? [hand(...position)] : [],
+      multiHandedness: position ? [right(score)] : [],
+    };
+  });
+
+const tipX = (frame: { multiHandLandmarks?: Landmark[][] }) => frame.multiHandLandmarks?.[0]?.[8].x;
+
+const spread = (values: number[]) => {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / values.length);
+};
+
+describe('OneEuroFilter', () => {
+  it('passes the first sample through and restarts when time goes backwards', () => {
+    const filter = new OneEuroFilter(1, 0, 1);
+    expect(filter.filter(0.3, 0)).toBe(0.3);
+    expect(filter.filter(0.9, 33)).toBeLessThan(0.9);
+    expect(filter.filter(0.5, 10)).toBe(0.5);
+  });
+});
+
+describe('filterLandmarkFrames', () => {
+  it('steadies a still hand with tracking jitter', () => {
+    const random = createRandom(3);
+    const take = recording(90, () => [0.5 + (random() - 0.5) * 0.02, 0.5 + (random() - 0.5) * 0.02]);
+    const raw = take.slice(15).map(frame => tipX(frame)!);
+    const filtered = filterLandmarkFrames(take).slice(15).map(frame => tipX(frame)!);
+    expect(spread(filtered)).toBeLessThan(spread(raw) / 2);
+  });
+
+  it('follows a fast move closely', () => {
+    // 0.6 across the frame in 200 ms, then still
+    const x = (i: number) => 0.2 + 0.6 * Math.min(1, Math.max(0, (i - 10) / 6));
+    const take = recording(40, i => [x(i), 0.5]);
+    const filtered = filterLandmarkFrames(take).map(frame => tipX(frame)!);
+    const smoothedOnly = filterLandmarkFrames(take, { beta: 0 }).map(frame => tipX(frame)!);
+    const lag = (values: number[], i: number) => Math.abs(values[i] - tipX(take[i])!);
+    expect(lag(filtered, 16)).toBeLessThan(0.1); // End of the move
+    expect(lag(filtered, 19)).toBeLessThan(0.01); // 100 ms later
+    expect(lag(smoothedOnly, 16)).toBeGreaterThan(3 * lag(filtered, 16)); // What the speed term buys
+  });
+
+  it('holds a hand through a short dropout only', () => {
+    // Lost for 4 frames (133 ms), then for 10 (333 ms)
+    const take = recording(40, i => ((i >= 10 && i < 14) || (i >= 20 && i < 30) ? null : [0.5, 0.5]));
+    const seen = filterLandmarkFrames(take, { holdMs: 150 }).map(frame => frame.multiHandLandmarks!.length);
+    expect(seen.slice(0, 20)).toEqual(Array(20).fill(1));
+    expect(seen.slice(20, 25)).toEqual([1, 1, 1, 1, 0]); // Held to 150 ms, then dropped
+    expect(seen.slice(25, 30)).toEqual(Array(5).fill(0));
+    expect(seen[30]).toBe(1);
+    expect(tipX(filterLandmarkFrames(take)[12])).toBeCloseTo(tipX(take[9])!, 6); // At its last position
+  });
+
+  it('rejects detections below the confidence threshold', () => {
+    const unsure = recording(5, () => [0.5, 0.5], 0.5);
+    expect(filterLandmarkFrames(unsure, { minConfidence: 0.7 }).every(frame => frame.multiHandLandmarks!.length === 0)).toBe(true);
+    expect(filterLandmarkFrames(unsure, { minConfidence: 0.4 }).every(frame => frame.multiHandLandmarks!.length === 1)).toBe(true);
+
+    const mixed: LandmarkFrame = {
+      t: 0,
+      multiHandLandmarks: [hand(0.2, 0.5), hand(0.8, 0.5)],
+      multiHandedness: [{ label: 'Left', score: 0.3 }, right()],
+    };
+    const [{ multiHandedness }] = filterLandmarkFrames([mixed]);
+    expect(multiHandedness).toEqual([right()]);
+  });
+});
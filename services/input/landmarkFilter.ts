@@ -0,0 +1,180 @@
+import { HandResults, Handedness, Landmark } from '../../types';
+import { Detection, HandIdentityTracker } from './handIdentity';
+
+// =================================================================
+// ONE-EURO FILTER
+// =================================================================
+// Adaptive low-pass filter (Casiez et al. 2012): heavy smoothing while the
+// hand is still (kills jitter), light smoothing when it moves fast (keeps
+// latency low).
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const r = 2 * Math.PI * cutoff * dt;
+  return r / (r + 1);
+};
+
+export class OneEuroFilter {
+  private prevValue: number | null = null;
+  private prevDeriv = 0;
+  private prevTime = 0;
+
+  constructor(
+    private minCutoff: number,
+    private beta: number,
+    private dCutoff: number
+  ) {}
+
+  // `time` in milliseconds
+  public filter(value: number, time: number): number {
+    const dt = (time - this.prevTime) / 1000;
+    if (this.prevValue === null || dt <= 0) {
+      // First sample, or time went backwards (e.g. a looping replay)
+      this.prevValue = value;
+      this.prevDeriv = 0;
+      this.prevTime = time;
+      return value;
+    }
+
+    const deriv = (value - this.prevValue) / dt;
+    const aDeriv = smoothingFactor(this.dCutoff, dt);
+    this.prevDeriv = aDeriv * deriv + (1 - aDeriv) * this.prevDeriv;
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.prevDeriv);
+    const a = smoothingFactor(cutoff, dt);
+    this.prevValue = a * value + (1 - a) * this.prevValue;
+    this.prevTime = time;
+    return this.prevValue;
+  }
+
+  public reset() {
+    this.prevValue = null;
+    this.prevDeriv = 0;
+  }
+}
+
+// =================================================================
+// LANDMARK FILTER STAGE
+// =================================================================
+
+export interface LandmarkFilterOptions {
+  enabled: boolean;
+  minCutoff: number; // Hz. Lower = smoother at rest
+  beta: number; // Speed coefficient. Higher = less lag on fast moves
+  dCutoff: number; // Hz, for the derivative estimate
+  minConfidence: number; // Handedness score below which a detection is dropped
+  holdMs: number; // Keep a lost hand at its last position this long
+}
+
+export const DEFAULT_LANDMARK_FILTER: LandmarkFilterOptions = {
+  enabled: true,
+  minCutoff: 1.2,
+  beta: 4.0, // Tuned for normalized (0-1) image coordinates
+  dCutoff: 1.0,
+  minConfidence: 0.7,
+  holdMs: 150,
+};
+
+interface HandTrack {
+  filters: OneEuroFilter[]; // x, y, z per landmark
+  landmarks: Landmark[];
+  handedness: Handedness;
+  lastSeen: number;
+}
+
+// Sits between MediaPipe results and HandState: drops low-confidence hands,
+// smooths every landmark and bridges short dropouts. Output has the same
+// shape as the input so the rest of the pipeline is unchanged.
+// With an identity tracker, hands are relabelled to their stable identity
+// before smoothing; otherwise the first detection per label wins.
+export class LandmarkFilterStage {
+  private options: LandmarkFilterOptions;
+  private tracks = new Map<string, HandTrack>();
+
+  constructor(
+    options: Partial<LandmarkFilterOptions> = {},
+    private identity: HandIdentityTracker | null = null
+  ) {
+    this.options = { ...DEFAULT_LANDMARK_FILTER, ...options };
+  }
+
+  public setOptions(options: Partial<LandmarkFilterOptions>) {
+    this.options = { ...this.options, ...options };
+    this.reset();
+  }
+
+  public reset() {
+    this.tracks.clear();
+    this.identity?.reset();
+  }
+
+  public process(results: HandResults, time: number): HandResults {
+    const { enabled, minConfidence, holdMs } = this.options;
+    const landmarksIn = results.multiHandLandmarks ?? [];
+    const handednessIn = results.multiHandedness ?? [];
+
+    const confident: Detection[] = [];
+    landmarksIn.forEach((landmarks, index) => {
+      const handedness = handednessIn[index];
+      if (handedness && handedness.score >= minConfidence) confident.push({ landmarks, handedness });
+    });
+    const detections = this.identity
+      ? this.identity.assign(confident, time)
+      : confident.filter((d, i) => confident.findIndex(o => o.handedness.label === d.handedness.label) === i);
+
+    const seen = new Set<string>();
+    detections.forEach(({ landmarks, handedness }) => {
+      const key = handedness.label;
+      seen.add(key);
+
+      const track = this.getTrack(key, handedness, landmarks.length);
+      track.handedness = handedness;
+      track.lastSeen = time;
+      track.landmarks = enabled
+        ? landmarks.map((lm, i) => ({
+            x: track.filters[i * 3].filter(lm.x, time),
+            y: track.filters[i * 3 + 1].filter(lm.y, time),
+            z: track.filters[i * 3 + 2].filter(lm.z, time),
+          }))
+        : landmarks;
+    });
+
+    const multiHandLandmarks: Landmark[][] = [];
+    const multiHandedness: Handedness[] = [];
+    this.tracks.forEach((track, key) => {
+      if (!seen.has(key)) {
+        if (time - track.lastSeen > holdMs || time < track.lastSeen) {
+          this.tracks.delete(key);
+          return;
+        }
+      }
+      multiHandLandmarks.push(track.landmarks);
+      multiHandedness.push(track.handedness);
+    });
+
+    return { multiHandLandmarks, multiHandedness };
+  }
+
+  private getTrack(key: string, handedness: Handedness, landmarkCount: number): HandTrack {
+    let track = this.tracks.get(key);
+    if (!track || track.filters.length !== landmarkCount * 3) {
+      const { minCutoff, beta, dCutoff } = this.options;
+      track = {
+        filters: Array.from({ length: landmarkCount * 3 }, () => new OneEuroFilter(minCutoff, beta, dCutoff)),
+        landmarks: [],
+        handedness,
+        lastSeen: 0,
+      };
+      this.tracks.set(key, track);
+    }
+    return track;
+  }
+}
+
+// Offline helper: run a whole recorded take through a fresh filter stage
+export function filterLandmarkFrames(
+  frames: (HandResults & { t: number })[],
+  options: Partial<LandmarkFilterOptions> = {}
+): (HandResults & { t: number })[] {
+  const stage = new LandmarkFilterStage(options);
+  return frames.map(frame => ({ t: frame.t, ...stage.process(frame, frame.t) }));
+}
@@ -0,0 +1,35 @@
+import { HandAssignment } from '../../types';
+import { HandTracker } from '../handTracking';
+import { LandmarkRecording } from '../landmarkRecording';
+import { HandResultsProcessor } from './handResults';
+import { LandmarkFilterOptions } from './landmarkFilter';
+import { HandInputSource, HandStateListener } from './types';
+
+// Live webcam tracking through MediaPipe Hands
+export class MediaPipeInputSource implements HandInputSource {
+  public readonly kind = 'camera';
+  private tracker: HandTracker;
+  private processor: HandResultsProcessor;
+
+  constructor(
+    private videoElement: HTMLVideoElement,
+    onState: HandStateListener,
+    filterOptions: Partial<LandmarkFilterOptions> = {},
+    assignment?: HandAssignment
+  ) {
+    this.processor = new HandResultsProcessor(filterOptions, assignment);
+    this.tracker = new HandTracker(results => onState(this.processor.process(results)));
+  }
+
+  public start() {
+    return this.tracker.start(this.videoElement);
+  }
+
+  public stop() {
+    this.tracker.stop();
+  }
+
+  public get isRecording() { return this.tracker.isRecording; }
+  public startRecording() { this.tracker.startRecording(); }
+  public stopRecording(): LandmarkRecording { return this.tracker.stopRecording(); }
+}
@@ -0,0 +1,115 @@
+import { HandCoordinates, HandSide, HandState } from '../../types';
+import { HandInputSource, HandStateListener } from './types';
+
+interface PointerHand {
+  pointerId: number;
+  coords: HandCoordinates;
+  isPinching: boolean;
+  squeeze: number;
+}
+
+// Mouse / touch / pen input. Each pointer drives the hand for the half of
+// the screen it went down in, so two fingers on a touchscreen play both hands.
+// - Touch & pen: contact = pinch, pressure = squeeze
+// - Mouse: hovering moves the hand, left button = pinch, right button = squeeze
+export class PointerInputSource implements HandInputSource {
+  public readonly kind = 'pointer';
+  private hands: Record<HandSide, PointerHand | null> = { left: null, right: null };
+  private frameId: number | null = null;
+
+  constructor(private element: HTMLElement, private onState: HandStateListener) {}
+
+  public async start() {
+    this.element.addEventListener('pointerdown', this.handlePointer);
+    this.element.addEventListener('pointermove', this.handlePointer);
+    this.element.addEventListener('pointerup', this.handlePointerEnd);
+    this.element.addEventListener('pointercancel', this.handlePointerEnd);
+    this.element.addEventListener('pointerleave', this.handlePointerEnd);
+    this.element.addEventListener('contextmenu', this.preventDefault);
+    this.tick();
+  }
+
+  public stop() {
+    this.element.removeEventListener('pointerdown', this.handlePointer);
+    this.element.removeEventListener('pointermove', this.handlePointer);
+    this.element.removeEventListener('pointerup', this.handlePointerEnd);
+    this.element.removeEventListener('pointercancel', this.handlePointerEnd);
+    this.element.removeEventListener('pointerleave', this.handlePointerEnd);
+    this.element.removeEventListener('contextmenu', this.preventDefault);
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.hands = { left: null, right: null };
+  }
+
+  // Emit every frame so a held pointer keeps playing like a visible hand
+  private tick = () => {
+    this.onState(this.getState());
+    this.frameId = requestAnimationFrame(this.tick);
+  };
+
+  private getState(): HandState {
+    const { left, right } = this.hands;
+    return {
+      left: left?.coords ?? null,
+      right: right?.coords ?? null,
+      isLeftPinching: left?.isPinching ?? false,
+      isRightPinching: right?.isPinching ?? false,
+      leftSqueeze: left?.squeeze ?? 0,
+      rightSqueeze: right?.squeeze ?? 0,
+    };
+  }
+
+  private handlePointer = (e: PointerEvent) => {
+    const rect = this.element.getBoundingClientRect();
+    const coords = {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+    const isMouse = e.pointerType === 'mouse';
+    // Touch only counts while in contact; a hovering mouse is always "present"
+    if (!isMouse && e.buttons === 0) return;
+
+    let side = this.findSide(e.pointerId);
+    if (!side) {
+      side = coords.x < 0.5 ? 'left' : 'right';
+      // A mouse switches hands when it crosses the middle; touches keep theirs
+      if (isMouse) this.hands[side === 'left' ? 'right' : 'left'] = null;
+      else if (this.hands[side]) return; // That hand is already taken by another finger
+    } else if (isMouse && (coords.x < 0.5 ? 'left' : 'right') !== side) {
+      this.hands[side] = null;
+      side = coords.x < 0.5 ? 'left' : 'right';
+    }
+
+    this.hands[side] = {
+      pointerId: e.pointerId,
+      coords,
+      isPinching: isMouse ? (e.buttons & 1) !== 0 : true,
+      squeeze: isMouse ? ((e.buttons & 2) !== 0 ? 1 : 0) : this.getPressureSqueeze(e),
+    };
+  };
+
+  private handlePointerEnd = (e: PointerEvent) => {
+    const side = this.findSide(e.pointerId);
+    if (!side) return;
+    if (e.pointerType === 'mouse' && e.type === 'pointerup') {
+      // Releasing the button keeps the mouse hand hovering
+      this.handlePointer(e);
+      return;
+    }
+    this.hands[side] = null;
+  };
+
+  // Devices without pressure report a constant 0.5 while pressed
+  private getPressureSqueeze(e: PointerEvent): number {
+    if (e.pointerType !== 'pen' && e.pressure === 0.5) return 0;
+    return Math.max(0, Math.min(1, e.pressure));
+  }
+
+  private findSide(pointerId: number): HandSide | null {
+    if (this.hands.left?.pointerId === pointerId) return 'left';
+    if (this.hands.right?.pointerId === pointerId) return 'right';
+    return null;
+  }
+
+  private preventDefault = (e: Event) => e.preventDefault();
+}
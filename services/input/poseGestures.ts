@@ -0,0 +1,62 @@
+import { EngineAction, HandState } from '../../types';
+
+export type PoseGesture = Extract<EngineAction, 'nextSection' | 'outro' | 'loopRecord' | 'loopUndo' | 'loopClear'>;
+
+export interface PoseGestureOptions {
+  fistSqueeze: number; // Squeeze above this counts as a fist
+  raisedY: number; // A hand above this (0 = top) counts as raised
+}
+
+const DEFAULT_OPTIONS: PoseGestureOptions = { fistSqueeze: 0.8, raisedY: 0.15 };
+
+// Two-handed poses that steer the performance, once they've been held long
+// enough to rule out passing through them while playing:
+// - both fists raised -> 'loopClear'
+// - both fists -> 'nextSection'
+// - both hands raised -> 'outro'
+// - right fist, left hand raised -> 'loopRecord' (record / overdub)
+// - left fist, right hand raised -> 'loopUndo'
+// A pose fires once; the hands must leave it before it can fire again.
+export class PoseGestureDetector {
+  private options: PoseGestureOptions;
+  private pose: PoseGesture | null = null;
+  private poseStart = 0;
+  private fired = false;
+
+  constructor(options: Partial<PoseGestureOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  public reset() {
+    this.pose = null;
+    this.fired = false;
+  }
+
+  // `holdMs` is how long the pose must be held (e.g. one bar)
+  public update(state: HandState, time: number, holdMs: number): PoseGesture | null {
+    const pose = this.classify(state);
+    if (pose !== this.pose) {
+      this.pose = pose;
+      this.poseStart = time;
+      this.fired = false;
+      return null;
+    }
+    if (!pose || this.fired || time - this.poseStart < holdMs) return null;
+    this.fired = true;
+    return pose;
+  }
+
+  private classify({ left, right, leftSqueeze, rightSqueeze }: HandState): PoseGesture | null {
+    if (!left || !right) return null;
+    const { fistSqueeze, raisedY } = this.options;
+    const leftFist = leftSqueeze >= fistSqueeze;
+    const rightFist = rightSqueeze >= fistSqueeze;
+    const leftRaised = left.y <= raisedY;
+    const rightRaised = right.y <= raisedY;
+    if (leftFist && rightFist) return leftRaised && rightRaised ? 'loopClear' : 'nextSection';
+    if (leftRaised && rightRaised) return 'outro';
+    if (rightFist && leftRaised) return 'loopRecord';
+    if (leftFist && rightRaised) return 'loopUndo';
+    return null;
+  }
+}
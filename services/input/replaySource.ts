@@ -0,0 +1,37 @@
+import { HandAssignment } from '../../types';
+import { LandmarkRecording, LandmarkReplay, ReplayOptions } from '../landmarkRecording';
+import { HandResultsProcessor } from './handResults';
+import { LandmarkFilterOptions } from './landmarkFilter';
+import { HandInputSource, HandStateListener } from './types';
+
+// Recorded landmark take, run through the same processing as the camera
+export class ReplayInputSource implements HandInputSource {
+  public readonly kind = 'replay';
+  private replay: LandmarkReplay;
+  private processor: HandResultsProcessor;
+
+  constructor(
+    recording: LandmarkRecording,
+    onState: HandStateListener,
+    options: ReplayOptions = {},
+    filterOptions: Partial<LandmarkFilterOptions> = {},
+    assignment?: HandAssignment
+  ) {
+    this.processor = new HandResultsProcessor(filterOptions, assignment);
+    this.replay = new LandmarkReplay(recording, frame => onState(this.processor.process(frame, frame.t)), options);
+  }
+
+  public async start() {
+    this.processor.reset();
+    await this.replay.start();
+  }
+
+  public stop() {
+    this.replay.stop();
+  }
+
+  public runToEnd() {
+    this.processor.reset();
+    this.replay.runToEnd();
+  }
+}
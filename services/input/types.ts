@@ -0,0 +1,17 @@
+import { HandState } from '../../types';
+
+export type InputSourceKind = 'camera' | 'pointer' | 'keyboard' | 'replay';
+
+export type HandStateListener = (state: HandState) => void;
+
+// A producer of HandState frames. Sources push a new state whenever their
+// input changes (camera frame, pointer move, key tick) until stopped.
+export interface HandInputSource {
+  readonly kind: InputSourceKind;
+  start(): Promise<void>;
+  stop(): void;
+}
+
+export const EMPTY_HAND_STATE: HandState = {
+  left: null, right: null, isLeftPinching: false, isRightPinching: false, leftSqueeze: 0, rightSqueeze: 0
+};
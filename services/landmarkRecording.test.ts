@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HandResults, Landmark } from '../types';
+import { LandmarkFrame, LandmarkRecorder, LandmarkRecording, LandmarkReplay, parseLandmarkRecording, serializeLandmarkRecording } from './landmarkRecording';
+
+const hand = (x: number): Landmark[] => Array.from({ length: 21 }, (_, i) => ({ x: x + i * 0.001, y: 0.5, z: -0.01 }));
+
+// Three camera frames, 40 ms apart, one of them without a hand
+function record(): LandmarkRecording {
+  let now = 1000;
+  const recorder = new LandmarkRecorder(() => now);
+  recorder.capture({ multiHandLandmarks: [hand(0.1)], multiHandedness: [{ label: 'Right', score: 0.9 }] }); // Not started yet
+  recorder.start();
+  const results: HandResults[] = [
+    { multiHandLandmarks: [hand(0.2)], multiHandedness: [{ label: 'Right', score: 0.9 }] },
+    {},
+    { multiHandLandmarks: [hand(0.3), hand(0.7)], multiHandedness: [{ label: 'Right', score: 0.95 }, { label: 'Left', score: 0.8 }] },
+  ];
+  for (const frame of results) {
+    recorder.capture(frame);
+    now += 40;
+  }
+  return recorder.stop();
+}
+
+describe('landmark recordings', () => {
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('records plain frames timed from the start', () => {
+    const { version, frames } = record();
+    expect(version).toBe(1);
+    expect(frames.map(frame => frame.t)).toEqual([0, 40, 80]);
+    expect(frames[1]).toEqual({ t: 40, multiHandLandmarks: [], multiHandedness: [] });
+  });
+
+  it('copies what MediaPipe hands it, which it reuses', () => {
+    const recorder = new LandmarkRecorder(() => 0);
+    const landmarks = hand(0.2);
+    const handedness = { label: 'Right' as const, score: 0.9, index: 0 };
+    recorder.start();
+    recorder.capture({ multiHandLandmarks: [landmarks], multiHandedness: [handedness] });
+    landmarks[0].x = 0.9;
+    const [frame] = recorder.stop().frames;
+    expect(frame.multiHandLandmarks[0][0].x).toBe(0.2);
+    expect(frame.multiHandedness).toEqual([{ label: 'Right', score: 0.9 }]);
+  });
+
+  it('replays a saved take headlessly, frame for frame', () => {
+    const recording = record();
+    const parsed = parseLandmarkRecording(serializeLandmarkRecording(recording));
+    expect(parsed).toEqual(recording);
+
+    const replayed: LandmarkFrame[] = [];
+    new LandmarkReplay(parsed, frame => replayed.push(frame)).runToEnd();
+    expect(replayed).toEqual(recording.frames);
+  });
+
+  it('replays at the recorded timing, scaled by the speed', () => {
+    vi.useFakeTimers();
+    const replayed: number[] = [];
+    const replay = new LandmarkReplay(record(), frame => replayed.push(frame.t), { speed: 2 });
+    replay.start();
+    vi.advanceTimersByTime(0);
+    expect(replayed).toEqual([0]);
+    vi.advanceTimersByTime(19);
+    expect(replayed).toEqual([0]);
+    vi.advanceTimersByTime(1);
+    expect(replayed).toEqual([0, 40]);
+    replay.stop();
+    vi.advanceTimersByTime(100);
+    expect(replayed).toEqual([0, 40]);
+  });
+
+  it('rejects files that are not recordings', () => {
+    const file = (data: object) => JSON.stringify({ ...record(), ...data });
+    const frames = record().frames;
+    const withFrame = (frame: object) => file({ frames: [frames[0], frame] });
+    expect(() => parseLandmarkRecording('{')).toThrow('Invalid landmark recording: not valid JSON');
+    expect(() => parseLandmarkRecording('null')).toThrow('Invalid landmark recording: missing frames');
+    expect(() => parseLandmarkRecording(file({ frames: {} }))).toThrow('Invalid landmark recording: missing frames');
+    expect(() => parseLandmarkRecording(file({ version: 2 }))).toThrow('Unsupported landmark recording version 2');
+    expect(() => parseLandmarkRecording(withFrame({ ...frames[2], t: -5 }))).toThrow('Invalid landmark recording: malformed frame 2');
+    expect(() => parseLandmarkRecording(withFrame({ ...frames[2], multiHandLandmarks: [[{ x: 0, y: 0 }], hand(0)] }))).toThrow('malformed frame 2');
+    expect(() => parseLandmarkRecording(withFrame({ ...frames[2], multiHandedness: [{ label: 'Both', score: 1 }, frames[2].multiHandedness[1]] }))).toThrow('malformed frame 2');
+    expect(() => parseLandmarkRecording(withFrame({ ...frames[2], multiHandedness: frames[2].multiHandedness.slice(1) }))).toThrow('malformed frame 2');
+    expect(() => parseLandmarkRecording(withFrame([]))).toThrow('malformed frame 2');
+  });
+});
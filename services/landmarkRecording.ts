@@ -0,0 +1,159 @@
+import { HandResults, Handedness, Landmark } from '../types';
+
+export const LANDMARK_RECORDING_VERSION = 1;
+
+export interface LandmarkFrame {
+  t: number; // ms since recording start
+  multiHandLandmarks: Landmark[][];
+  multiHandedness: Handedness[];
+}
+
+export interface LandmarkRecording {
+  version: number;
+  createdAt: string; // ISO date
+  frames: LandmarkFrame[];
+}
+
+// =================================================================
+// RECORDING
+// =================================================================
+
+export class LandmarkRecorder {
+  private frames: LandmarkFrame[] = [];
+  private startTime = 0;
+  private createdAt = '';
+  private isRecording = false;
+
+  constructor(private now: () => number = () => performance.now()) {}
+
+  public get recording() { return this.isRecording; }
+
+  public start() {
+    this.frames = [];
+    this.startTime = this.now();
+    this.createdAt = new Date().toISOString();
+    this.isRecording = true;
+  }
+
+  public capture(results: HandResults) {
+    if (!this.isRecording) return;
+    // Copy only the plain data: MediaPipe reuses its result objects between frames
+    this.frames.push({
+      t: this.now() - this.startTime,
+      multiHandLandmarks: (results.multiHandLandmarks ?? []).map(hand =>
+        hand.map(({ x, y, z }) => ({ x, y, z }))
+      ),
+      multiHandedness: (results.multiHandedness ?? []).map(({ label, score }) => ({ label, score })),
+    });
+  }
+
+  public stop(): LandmarkRecording {
+    this.isRecording = false;
+    return { version: LANDMARK_RECORDING_VERSION, createdAt: this.createdAt, frames: this.frames };
+  }
+}
+
+export const serializeLandmarkRecording = (recording: LandmarkRecording): string =>
+  JSON.stringify(recording);
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+const isLandmark = (v: unknown): v is Landmark => isObject(v) && isNumber(v.x) && isNumber(v.y) && isNumber(v.z);
+const isHandedness = (v: unknown): v is Handedness =>
+  isObject(v) && (v.label === 'Left' || v.label === 'Right') && isNumber(v.score);
+
+// One hand's landmarks and handedness per detected hand, in time order
+const isFrame = (v: unknown, lastT: number): v is LandmarkFrame =>
+  isObject(v) && isNumber(v.t) && v.t >= lastT
+  && Array.isArray(v.multiHandLandmarks) && v.multiHandLandmarks.every(hand => Array.isArray(hand) && hand.every(isLandmark))
+  && Array.isArray(v.multiHandedness) && v.multiHandedness.every(isHandedness)
+  && v.multiHandLandmarks.length === v.multiHandedness.length;
+
+export function parseLandmarkRecording(json: string): LandmarkRecording {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid landmark recording: not valid JSON");
+  }
+  if (!isObject(data) || !Array.isArray(data.frames)) {
+    throw new Error("Invalid landmark recording: missing frames");
+  }
+  if (data.version !== LANDMARK_RECORDING_VERSION) {
+    throw new Error(`Unsupported landmark recording version ${data.version}`);
+  }
+  let lastT = -Infinity;
+  const frames: LandmarkFrame[] = [];
+  for (const frame of data.frames) {
+    if (!isFrame(frame, lastT)) throw new Error(`Invalid landmark recording: malformed frame ${frames.length + 1}`);
+    frames.push(frame);
+    lastT = frame.t;
+  }
+  return { version: LANDMARK_RECORDING_VERSION, createdAt: typeof data.createdAt === 'string' ? data.createdAt : '', frames };
+}
+
+// =================================================================
+// REPLAY
+// =================================================================
+
+export interface ReplayOptions {
+  speed?: number; // 1 = original timing, 2 = twice as fast
+  loop?: boolean;
+}
+
+// Emits recorded frames through the same `onResults` callback a live
+// HandTracker would use.
+export class LandmarkReplay {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private frameIndex = 0;
+  private isActive = false;
+  private speed: number;
+  private loop: boolean;
+
+  constructor(
+    private recording: LandmarkRecording,
+    private onResults: (frame: LandmarkFrame) => void,
+    options: ReplayOptions = {}
+  ) {
+    this.speed = options.speed ?? 1;
+    this.loop = options.loop ?? false;
+  }
+
+  public async start() {
+    this.isActive = true;
+    this.frameIndex = 0;
+    this.scheduleNext();
+  }
+
+  public stop() {
+    this.isActive = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // Deterministic, timer-free playback for headless use
+  public runToEnd() {
+    this.recording.frames.forEach(frame => this.onResults(frame));
+  }
+
+  private scheduleNext() {
+    const frames = this.recording.frames;
+    if (!this.isActive) return;
+    if (this.frameIndex >= frames.length) {
+      if (!this.loop || frames.length === 0) return;
+      this.frameIndex = 0;
+    }
+
+    const frame = frames[this.frameIndex];
+    const prevT = this.frameIndex > 0 ? frames[this.frameIndex - 1].t : frame.t;
+    const delay = (frame.t - prevT) / this.speed;
+
+    this.timer = setTimeout(() => {
+      if (!this.isActive) return;
+      this.onResults(frame);
+      this.frameIndex++;
+      this.scheduleNext();
+    }, delay);
+  }
+}
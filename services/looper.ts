@@ -0,0 +1,116 @@
+import { STEPS_PER_BAR } from './drumPatterns';
+
+export interface LoopNote {
+  role: 'LEAD' | 'RHYTHM';
+  note: string;
+  duration: string; // Tone time, e.g. "8n"
+  velocity: number;
+  x: number; // Where the hand was, for the visuals
+  y: number;
+  pan?: number; // How the hand shaped it (see applyDynamics), when it had dynamics
+  filterAmount?: number;
+}
+
+// - 'empty': nothing recorded
+// - 'armed': recording starts at the next bar line
+// - 'recording': capturing the first layer (sets the loop's start)
+// - 'playing': looping the recorded layers
+// - 'overdubArmed': a new layer starts when the loop comes round
+// - 'overdubbing': looping and capturing a new layer for one pass
+export type LooperState = 'empty' | 'armed' | 'recording' | 'playing' | 'overdubArmed' | 'overdubbing';
+
+// A bar-aligned phrase looper on the 16th grid. Time is given as absolute
+// 16th steps since the Transport started (the engine's loop counter), so the
+// looper itself needs no clock.
+export class Looper {
+  private layers: LoopNote[][][] = []; // Layer -> step -> notes
+  private current: LoopNote[][] | null = null; // Layer being captured
+  private layerStart = 0; // Step the current capture began on
+  private loopStart = 0; // Step the loop's first bar began on
+  private loopState: LooperState = 'empty';
+
+  constructor(private bars = 2) {}
+
+  public get state(): LooperState { return this.loopState; }
+  public get layerCount(): number { return this.layers.length; }
+  public get length(): number { return this.bars * STEPS_PER_BAR; }
+
+  // Record (when empty) or overdub (when playing); pressed again while
+  // armed, cancels
+  public toggleRecord() {
+    switch (this.loopState) {
+      case 'empty': this.loopState = 'armed'; break;
+      case 'armed': this.loopState = 'empty'; break;
+      case 'playing': this.loopState = 'overdubArmed'; break;
+      case 'overdubArmed': this.loopState = 'playing'; break;
+      // Recording always runs for the full loop so layers stay aligned
+    }
+  }
+
+  // Drop the newest layer (or the one being captured)
+  public undo() {
+    if (this.current) {
+      this.current = null;
+      this.loopState = this.layers.length > 0 ? 'playing' : 'empty';
+      return;
+    }
+    this.layers.pop();
+    if (this.layers.length === 0) this.loopState = 'empty';
+    else if (this.loopState === 'overdubArmed') this.loopState = 'playing';
+  }
+
+  public clear() {
+    this.layers = [];
+    this.current = null;
+    this.loopState = 'empty';
+  }
+
+  // The Transport jumped back (e.g. a MIDI Start): keep the layers but begin
+  // the loop again at `step`, dropping any half-captured layer
+  public restartAt(step: number) {
+    this.loopStart = step;
+    if (this.current) this.undo();
+  }
+
+  // Advance to `step` (call once per 16th, before capturing at that step).
+  // Returns the looped notes that play on it.
+  public tick(step: number): LoopNote[] {
+    const position = this.positionOf(step);
+
+    // Finish a capture after one full pass
+    if (this.current && step - this.layerStart >= this.length) {
+      this.layers.push(this.current);
+      this.current = null;
+      this.loopState = 'playing';
+    }
+
+    if (this.loopState === 'armed' && step % STEPS_PER_BAR === 0) {
+      this.loopStart = step;
+      this.startLayer(step, 'recording');
+    } else if (this.loopState === 'overdubArmed' && position === 0) {
+      this.startLayer(step, 'overdubbing');
+    }
+
+    if (this.layers.length === 0) return [];
+    return this.layers.flatMap(layer => layer[this.positionOf(step)]);
+  }
+
+  // Record a note the performer played on `step` into the layer being captured
+  public capture(step: number, note: LoopNote) {
+    if (!this.current) return;
+    const offset = step - this.layerStart;
+    if (offset < 0 || offset >= this.length) return;
+    this.current[this.positionOf(step)].push(note);
+  }
+
+  private startLayer(step: number, state: LooperState) {
+    this.layerStart = step;
+    this.current = Array.from({ length: this.length }, () => []);
+    this.loopState = state;
+  }
+
+  private positionOf(step: number): number {
+    const length = this.length;
+    return (((step - this.loopStart) % length) + length) % length;
+  }
+}
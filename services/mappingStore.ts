@@ -0,0 +1,31 @@
+import { ParameterMapping, parseMappingPreset, serializeMappingPreset } from './mappings';
+
+// Mapping presets saved in the browser, one per genre
+const storageKey = (genre: string) => `hands-of-rhythm:mappings:${genre}`;
+
+// The saved mappings for `genre`, or null if none (or they no longer parse)
+export function loadSavedMappings(genre: string): ParameterMapping[] | null {
+  try {
+    const json = localStorage.getItem(storageKey(genre));
+    return json ? parseMappingPreset(json).mappings : null;
+  } catch (e) {
+    console.warn(`Ignoring saved mappings for ${genre}`, e);
+    return null;
+  }
+}
+
+export function saveMappings(genre: string, mappings: ParameterMapping[]) {
+  try {
+    localStorage.setItem(storageKey(genre), serializeMappingPreset(genre, mappings));
+  } catch (e) {
+    console.warn(`Could not save mappings for ${genre}`, e);
+  }
+}
+
+export function clearSavedMappings(genre: string) {
+  try {
+    localStorage.removeItem(storageKey(genre));
+  } catch (e) {
+    console.warn(`Could not clear mappings for ${genre}`, e);
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { HandControls } from '../types';
+import { applyCurve, MAPPING_CURVES, mapControl, ParameterMapper, ParameterMapping, parseMappingPreset, serializeMappingPreset } from './mappings';
+
+const mapping: ParameterMapping = {
+  hand: 'right',
+  source: 'x',
+  target: 'rightFilter.frequency',
+  min: 200,
+  max: 2200,
+  curve: 'linear',
+  invert: false,
+  smoothing: 0,
+};
+
+const controls = (x: number): HandControls => ({ x, y: 0, z: 0, squeeze: 0, pinch: 0, speed: 0 });
+
+describe('applyCurve', () => {
+  it('keeps every curve pinned at 0 and 1, clamping outside', () => {
+    for (const curve of MAPPING_CURVES) {
+      expect(applyCurve(0, curve)).toBe(0);
+      expect(applyCurve(1, curve)).toBe(1);
+      expect(applyCurve(-0.5, curve)).toBe(0);
+      expect(applyCurve(1.5, curve)).toBe(1);
+    }
+  });
+
+  it('bends the middle', () => {
+    expect(applyCurve(0.5, 'linear')).toBe(0.5);
+    expect(applyCurve(0.5, 'exponential')).toBe(0.25);
+    expect(applyCurve(0.25, 'logarithmic')).toBe(0.5);
+    expect(applyCurve(0.5, 'sCurve')).toBe(0.5);
+    expect(applyCurve(0.25, 'sCurve')).toBeLessThan(0.25);
+  });
+});
+
+describe('mapControl', () => {
+  it('scales onto the range, inverted if asked', () => {
+    expect(mapControl(mapping, 0.25)).toBe(700);
+    expect(mapControl({ ...mapping, invert: true }, 0.25)).toBe(1700);
+    expect(mapControl({ ...mapping, min: 1, max: 0 }, 1)).toBe(0);
+  });
+});
+
+describe('ParameterMapper', () => {
+  it('jumps to the first value, then eases toward each new one', () => {
+    const mapper = new ParameterMapper([{ ...mapping, min: 0, max: 1, smoothing: 0.75 }]);
+    expect(mapper.update('right', controls(1))).toEqual([{ target: mapping.target, value: 1 }]);
+    expect(mapper.update('right', controls(0))[0].value).toBeCloseTo(0.75);
+    expect(mapper.update('right', controls(0))[0].value).toBeCloseTo(0.5625);
+  });
+
+  it('only updates the mapping hand', () => {
+    const mapper = new ParameterMapper([mapping]);
+    expect(mapper.update('left', controls(1))).toEqual([]);
+  });
+
+  it('never freezes, however much smoothing is asked for', () => {
+    const mapper = new ParameterMapper([{ ...mapping, min: 0, max: 1, smoothing: 5 }]);
+    mapper.update('right', controls(0));
+    expect(mapper.update('right', controls(1))[0].value).toBeCloseTo(0.01);
+  });
+
+  it('starts afresh when the mappings change', () => {
+    const mapper = new ParameterMapper([{ ...mapping, smoothing: 0.9 }]);
+    mapper.update('right', controls(0));
+    mapper.setMappings([{ ...mapping, smoothing: 0.9 }]);
+    expect(mapper.update('right', controls(1))[0].value).toBe(2200);
+  });
+});
+
+describe('parseMappingPreset', () => {
+  const preset = (data: object) => JSON.stringify({ version: 1, genre: 'FUNK', mappings: [mapping], ...data });
+
+  it('reads back what it writes', () => {
+    expect(parseMappingPreset(serializeMappingPreset('FUNK', [mapping]))).toEqual({ version: 1, genre: 'FUNK', mappings: [mapping] });
+  });
+
+  it('drops fields it does not know', () => {
+    expect(parseMappingPreset(preset({ mappings: [{ ...mapping, extra: true }] })).mappings).toEqual([mapping]);
+  });
+
+  it('rejects files that are not presets', () => {
+    expect(() => parseMappingPreset('{')).toThrow('Mapping preset is not valid JSON');
+    expect(() => parseMappingPreset('null')).toThrow('Unsupported mapping preset version undefined');
+    expect(() => parseMappingPreset(preset({ version: 2 }))).toThrow('Unsupported mapping preset version 2');
+    expect(() => parseMappingPreset(preset({ genre: 7 }))).toThrow('Mapping preset has no genre');
+    expect(() => parseMappingPreset(preset({ mappings: {} }))).toThrow('Mapping preset has no mappings');
+  });
+
+  it('names the mapping and field that is wrong', () => {
+    const bad = (fields: object) => () => parseMappingPreset(preset({ mappings: [mapping, { ...mapping, ...fields }] }));
+    expect(() => parseMappingPreset(preset({ mappings: [mapping, []] }))).toThrow('Mapping 2 is not an object');
+    expect(bad({ hand: 'both' })).toThrow('Mapping 2: invalid "hand"');
+    expect(bad({ source: 'elbow' })).toThrow('Mapping 2: invalid "source"');
+    expect(bad({ target: '' })).toThrow('Mapping 2: invalid "target"');
+    expect(bad({ min: '0' })).toThrow('Mapping 2: invalid "min"');
+    expect(bad({ max: null })).toThrow('Mapping 2: invalid "max"');
+    expect(bad({ curve: 'cubic' })).toThrow('Mapping 2: invalid "curve"');
+    expect(bad({ invert: 1 })).toThrow('Mapping 2: invalid "invert"');
+    expect(bad({ smoothing: 1 })).toThrow('Mapping 2: invalid "smoothing"');
+  });
+});
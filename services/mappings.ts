@@ -0,0 +1,132 @@
+import { ControlSource, HandControls, HandSide } from '../types';
+
+// =================================================================
+// MAPPINGS
+// =================================================================
+
+export type MappingCurve = 'linear' | 'exponential' | 'logarithmic' | 'sCurve';
+
+export const CONTROL_SOURCES: ControlSource[] = ['x', 'y', 'z', 'squeeze', 'pinch', 'speed'];
+export const MAPPING_CURVES: MappingCurve[] = ['linear', 'exponential', 'logarithmic', 'sCurve'];
+
+// One hand control driving one parameter. The control (0-1) is inverted if
+// asked, bent by the curve, scaled onto [min, max] and then smoothed.
+export interface ParameterMapping {
+  hand: HandSide;
+  source: ControlSource;
+  target: string; // Target id, e.g. "leftFilter.frequency" (see genres/targets.ts)
+  min: number; // Target value at control 0
+  max: number; // Target value at control 1
+  curve: MappingCurve;
+  invert: boolean;
+  smoothing: number; // 0 (none) to 0.99 (very slow), per hand update
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+export function applyCurve(value: number, curve: MappingCurve): number {
+  const v = clamp01(value);
+  switch (curve) {
+    case 'linear': return v;
+    case 'exponential': return v * v; // Slow start, fast finish
+    case 'logarithmic': return Math.sqrt(v); // Fast start, slow finish
+    case 'sCurve': return v * v * (3 - 2 * v); // Smoothstep
+  }
+}
+
+// Target value for a raw control value (before smoothing)
+export function mapControl({ min, max, curve, invert }: ParameterMapping, value: number): number {
+  const shaped = applyCurve(invert ? 1 - clamp01(value) : value, curve);
+  return min + (max - min) * shaped;
+}
+
+export interface MappedValue {
+  target: string;
+  value: number;
+}
+
+// Runs a set of mappings over each hand update, keeping each mapping's smoothing state
+export class ParameterMapper {
+  private mappings: ParameterMapping[] = [];
+  private smoothed: (number | null)[] = [];
+
+  constructor(mappings: ParameterMapping[] = []) {
+    this.setMappings(mappings);
+  }
+
+  public setMappings(mappings: ParameterMapping[]) {
+    this.mappings = mappings;
+    this.smoothed = mappings.map(() => null);
+  }
+
+  public getMappings(): ParameterMapping[] { return this.mappings; }
+
+  public update(hand: HandSide, controls: HandControls): MappedValue[] {
+    const values: MappedValue[] = [];
+    this.mappings.forEach((mapping, i) => {
+      if (mapping.hand !== hand) return;
+      const target = mapControl(mapping, controls[mapping.source]);
+      const last = this.smoothed[i];
+      const smoothing = Math.max(0, Math.min(0.99, mapping.smoothing));
+      const value = last === null ? target : last + (target - last) * (1 - smoothing);
+      this.smoothed[i] = value;
+      values.push({ target: mapping.target, value });
+    });
+    return values;
+  }
+}
+
+// =================================================================
+// PRESETS (JSON)
+// =================================================================
+
+export const MAPPING_PRESET_VERSION = 1;
+
+export interface MappingPreset {
+  version: typeof MAPPING_PRESET_VERSION;
+  genre: string;
+  mappings: ParameterMapping[];
+}
+
+export function serializeMappingPreset(genre: string, mappings: ParameterMapping[]): string {
+  const preset: MappingPreset = { version: MAPPING_PRESET_VERSION, genre, mappings };
+  return JSON.stringify(preset, null, 2);
+}
+
+const HANDS: HandSide[] = ['left', 'right'];
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isOneOf = <T>(values: readonly T[], v: unknown): v is T => (values as readonly unknown[]).includes(v);
+
+// Validates one mapping read from JSON; `index` numbers it in error messages
+export function parseMapping(raw: unknown, index: number): ParameterMapping {
+  const fail = (field: string): never => { throw new Error(`Mapping ${index + 1}: invalid "${field}"`); };
+  if (!isObject(raw)) throw new Error(`Mapping ${index + 1} is not an object`);
+  const { hand, source, target, min, max, curve, invert, smoothing } = raw;
+  if (!isOneOf(HANDS, hand)) return fail('hand');
+  if (!isOneOf(CONTROL_SOURCES, source)) return fail('source');
+  if (typeof target !== 'string' || target === '') return fail('target');
+  if (!isNumber(min)) return fail('min');
+  if (!isNumber(max)) return fail('max');
+  if (!isOneOf(MAPPING_CURVES, curve)) return fail('curve');
+  if (typeof invert !== 'boolean') return fail('invert');
+  if (!isNumber(smoothing) || smoothing < 0 || smoothing >= 1) return fail('smoothing');
+  return { hand, source, target, min, max, curve, invert, smoothing };
+}
+
+// Throws with a readable message if `json` isn't a mapping preset
+export function parseMappingPreset(json: string): MappingPreset {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Mapping preset is not valid JSON");
+  }
+  if (!isObject(data) || data.version !== MAPPING_PRESET_VERSION) {
+    throw new Error(`Unsupported mapping preset version ${isObject(data) ? data.version : undefined}`);
+  }
+  if (typeof data.genre !== 'string') throw new Error("Mapping preset has no genre");
+  if (!Array.isArray(data.mappings)) throw new Error("Mapping preset has no mappings");
+  return { version: MAPPING_PRESET_VERSION, genre: data.genre, mappings: data.mappings.map(parseMapping) };
+}
@@ -0,0 +1,6 @@
+import { ReverbSettings } from '../types';
+
+// Master bus settings, shared by the live engine, the offline stem renderer
+// and new sessions
+export const MASTER_LIMITER_DB = -1;
+export const MASTER_REVERB: ReverbSettings = { decay: 2.0, wet: 0.2 };
@@ -0,0 +1,62 @@
+import type { Hands } from '@mediapipe/hands';
+import type { Camera } from '@mediapipe/camera_utils';
+
+// The MediaPipe packages are closure-compiled scripts that register globals
+// rather than real ES modules, so they are served as static files (see the
+// `mediapipeAssets` plugin in vite.config.ts) and loaded by script tag.
+export const MEDIAPIPE_ASSET_PATH = (
+  import.meta.env.VITE_MEDIAPIPE_ASSET_PATH || `${import.meta.env.BASE_URL}mediapipe`
+).replace(/\/$/, '');
+
+export class MediaPipeLoadError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'MediaPipeLoadError';
+  }
+}
+
+export interface MediaPipeModules {
+  Hands: typeof Hands;
+  Camera: typeof Camera;
+}
+
+declare global {
+  interface Window {
+    Hands?: typeof Hands;
+    Camera?: typeof Camera;
+  }
+}
+
+let loading: Promise<MediaPipeModules> | null = null;
+
+const loadScript = (src: string) => new Promise<void>((resolve, reject) => {
+  const script = document.createElement('script');
+  script.src = src;
+  script.crossOrigin = 'anonymous';
+  script.onload = () => resolve();
+  script.onerror = () => {
+    script.remove();
+    reject(new MediaPipeLoadError(`Could not load ${src}`));
+  };
+  document.head.appendChild(script);
+});
+
+export const locateHandsFile = (file: string) => `${MEDIAPIPE_ASSET_PATH}/hands/${file}`;
+
+export function loadMediaPipe(): Promise<MediaPipeModules> {
+  if (!loading) {
+    loading = Promise.all([
+      window.Hands ? Promise.resolve() : loadScript(locateHandsFile('hands.js')),
+      window.Camera ? Promise.resolve() : loadScript(`${MEDIAPIPE_ASSET_PATH}/camera_utils/camera_utils.js`),
+    ]).then(() => {
+      if (!window.Hands || !window.Camera) {
+        throw new MediaPipeLoadError("MediaPipe scripts loaded but did not register Hands/Camera");
+      }
+      return { Hands: window.Hands, Camera: window.Camera };
+    }).catch(err => {
+      loading = null; // Allow a retry after a failed load
+      throw err instanceof MediaPipeLoadError ? err : new MediaPipeLoadError("MediaPipe failed to load", { cause: err });
+    });
+  }
+  return loading;
+}
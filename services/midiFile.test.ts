@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { encodeVariableLength, MidiFileSpec, writeMidiFile } from './midiFile';
+
+describe('encodeVariableLength', () => {
+  it('encodes the values from the SMF spec', () => {
+    expect(encodeVariableLength(0)).toEqual([0x00]);
+    expect(encodeVariableLength(0x40)).toEqual([0x40]);
+    expect(encodeVariableLength(0x7f)).toEqual([0x7f]);
+    expect(encodeVariableLength(0x80)).toEqual([0x81, 0x00]);
+    expect(encodeVariableLength(0x2000)).toEqual([0xc0, 0x00]);
+    expect(encodeVariableLength(0x3fff)).toEqual([0xff, 0x7f]);
+    expect(encodeVariableLength(0x4000)).toEqual([0x81, 0x80, 0x00]);
+    expect(encodeVariableLength(0x0fffffff)).toEqual([0xff, 0xff, 0xff, 0x7f]);
+  });
+});
+
+describe('writeMidiFile', () => {
+  const spec: MidiFileSpec = {
+    ppq: 96,
+    tempos: [{ tick: 0, bpm: 120 }, { tick: 192, bpm: 90 }],
+    tracks: [
+      {
+        name: 'A',
+        channel: 1,
+        // Listed backwards: the repeated C4's note-off and note-on share tick 96
+        notes: [
+          { tick: 96, durationTicks: 96, pitch: 60, velocity: 90 },
+          { tick: 0, durationTicks: 96, pitch: 60, velocity: 100 },
+        ],
+      },
+      { name: 'B', channel: 10, notes: [{ tick: 48, durationTicks: 24, pitch: 36, velocity: 127 }] },
+    ],
+  };
+
+  it('writes the expected bytes', () => {
+    expect(Array.from(writeMidiFile(spec))).toEqual([
+      // MThd: format 1, 3 tracks, 96 ppq
+      0x4d, 0x54, 0x68, 0x64, 0x00, 0x00, 0x00, 0x06, 0x00, 0x01, 0x00, 0x03, 0x00, 0x60,
+
+      // Tempo track
+      0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, 0x1b,
+      0x00, 0xff, 0x58, 0x04, 0x04, 0x02, 0x18, 0x08, // 4/4
+      0x00, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20, // 120 BPM = 500000 µs per quarter
+      0x81, 0x40, 0xff, 0x51, 0x03, 0x0a, 0x2c, 0x2b, // +192: 90 BPM = 666667 µs
+      0x00, 0xff, 0x2f, 0x00,
+
+      // Track A, channel 1
+      0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, 0x19,
+      0x00, 0xff, 0x03, 0x01, 0x41, // Name
+      0x00, 0x90, 0x3c, 0x64,
+      0x60, 0x80, 0x3c, 0x00, // Note-off first...
+      0x00, 0x90, 0x3c, 0x5a, // ...then the note-on at the same tick
+      0x60, 0x80, 0x3c, 0x00,
+      0x00, 0xff, 0x2f, 0x00,
+
+      // Track B, channel 10
+      0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, 0x11,
+      0x00, 0xff, 0x03, 0x01, 0x42,
+      0x30, 0x99, 0x24, 0x7f,
+      0x18, 0x89, 0x24, 0x00,
+      0x00, 0xff, 0x2f, 0x00,
+    ]);
+  });
+
+  it('ends a note where the same pitch starts again', () => {
+    const overlapping = (notes: MidiFileSpec['tracks'][number]['notes']) =>
+      Array.from(writeMidiFile({ ppq: 96, tempos: [{ tick: 0, bpm: 120 }], tracks: [{ name: 'A', channel: 1, notes }] }).slice(14 + 8 + 0x13));
+    // 8th notes retriggered every 16th
+    expect(overlapping([
+      { tick: 0, durationTicks: 96, pitch: 60, velocity: 100 },
+      { tick: 48, durationTicks: 96, pitch: 60, velocity: 90 },
+    ])).toEqual([
+      0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, 0x19,
+      0x00, 0xff, 0x03, 0x01, 0x41,
+      0x00, 0x90, 0x3c, 0x64,
+      0x30, 0x80, 0x3c, 0x00, // Cut short at the retrigger...
+      0x00, 0x90, 0x3c, 0x5a,
+      0x60, 0x80, 0x3c, 0x00, // ...which plays its full length
+      0x00, 0xff, 0x2f, 0x00,
+    ]);
+    // The same note twice at once sounds once
+    expect(overlapping([
+      { tick: 0, durationTicks: 96, pitch: 60, velocity: 100 },
+      { tick: 0, durationTicks: 48, pitch: 60, velocity: 80 },
+    ])).toEqual([
+      0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, 0x11,
+      0x00, 0xff, 0x03, 0x01, 0x41,
+      0x00, 0x90, 0x3c, 0x64,
+      0x60, 0x80, 0x3c, 0x00,
+      0x00, 0xff, 0x2f, 0x00,
+    ]);
+  });
+
+  it('sets the bend range and writes bends between note-offs and note-ons', () => {
+    const bent = writeMidiFile({
+      ppq: 96,
+      tempos: [{ tick: 0, bpm: 120 }],
+      tracks: [{
+        name: 'T',
+        channel: 1,
+        notes: [{ tick: 0, durationTicks: 96, pitch: 60, velocity: 100 }],
+        bends: [{ tick: 0, semitones: 0.5 }, { tick: 48, semitones: 12 }, { tick: 96, semitones: 0 }],
+        bendRange: 24,
+      }],
+    });
+    expect(Array.from(bent.slice(14 + 8 + 0x13))).toEqual([
+      0x4d, 0x54, 0x72, 0x6b, 0x00, 0x00, 0x00, 0x35,
+      0x00, 0xff, 0x03, 0x01, 0x54,
+      // RPN 0 = 24 semitones, then the null RPN
+      0x00, 0xb0, 0x65, 0x00, 0x00, 0xb0, 0x64, 0x00, 0x00, 0xb0, 0x06, 0x18,
+      0x00, 0xb0, 0x26, 0x00, 0x00, 0xb0, 0x65, 0x7f, 0x00, 0xb0, 0x64, 0x7f,
+      0x00, 0xe0, 0x2b, 0x41, // +0.5 (8363) before the note starts
+      0x00, 0x90, 0x3c, 0x64,
+      0x30, 0xe0, 0x00, 0x60, // +12 (12288)
+      0x30, 0x80, 0x3c, 0x00,
+      0x00, 0xe0, 0x00, 0x40, // Centre, after the note-off
+      0x00, 0xff, 0x2f, 0x00,
+    ]);
+  });
+});
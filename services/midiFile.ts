@@ -0,0 +1,128 @@
+// Standard MIDI File (format 1) writer. Pure: takes plain note/tempo data and
+// returns the file bytes.
+
+export interface MidiFileNote {
+  tick: number;
+  durationTicks: number;
+  pitch: number; // 0-127
+  velocity: number; // 1-127
+}
+
+export interface MidiFileBend {
+  tick: number;
+  semitones: number; // From the notes' own pitch, within ±`bendRange`
+}
+
+export interface MidiFileTrack {
+  name: string;
+  channel: number; // 1-16
+  notes: MidiFileNote[];
+  bends?: MidiFileBend[];
+  bendRange?: number; // Semitones either way, set on the channel (RPN 0) when there are bends. Default 2, as in General MIDI.
+}
+
+export interface MidiFileTempo {
+  tick: number;
+  bpm: number;
+}
+
+export interface MidiFileText {
+  tick: number;
+  text: string;
+}
+
+export interface MidiFileSpec {
+  ppq: number; // Ticks per quarter note
+  tempos: MidiFileTempo[]; // Sorted by tick; the first should be at tick 0
+  texts?: MidiFileText[]; // Written to the tempo track (e.g. markers, swing amount)
+  tracks: MidiFileTrack[];
+}
+
+// MIDI variable-length quantity: 7 bits per byte, high bit set on all but the last
+export function encodeVariableLength(value: number): number[] {
+  let v = Math.max(0, Math.floor(value));
+  const bytes = [v & 0x7f];
+  while ((v >>= 7) > 0) bytes.unshift((v & 0x7f) | 0x80);
+  return bytes;
+}
+
+const uint32 = (v: number) => [(v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff];
+const uint16 = (v: number) => [(v >>> 8) & 0xff, v & 0xff];
+const ascii = (s: string) => Array.from(s, c => c.charCodeAt(0) & 0x7f);
+const clamp7 = (v: number) => Math.max(0, Math.min(127, Math.round(v)));
+
+// 14-bit pitch bend value (8192 is centre) for `semitones`, clamped to ±`range`
+export const pitchBendValue = (semitones: number, range: number) =>
+  Math.max(0, Math.min(16383, Math.round(8192 + (semitones / range) * 8192)));
+
+// An event at an absolute tick. `order` breaks ties: note-offs, then bends,
+// then note-ons at the same tick, so repeated notes don't swallow each other
+// and a note starts at its bend.
+interface TrackEvent {
+  tick: number;
+  order: number;
+  bytes: number[];
+}
+
+const meta = (type: number, data: number[]) => [0xff, type, ...encodeVariableLength(data.length), ...data];
+
+function trackChunk(events: TrackEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const body: number[] = [];
+  let lastTick = 0;
+  for (const event of sorted) {
+    const tick = Math.max(lastTick, Math.round(event.tick));
+    body.push(...encodeVariableLength(tick - lastTick), ...event.bytes);
+    lastTick = tick;
+  }
+  body.push(0x00, ...meta(0x2f, [])); // End of track
+  return [...ascii('MTrk'), ...uint32(body.length), ...body];
+}
+
+function tempoTrack({ tempos, texts = [] }: MidiFileSpec): TrackEvent[] {
+  const events: TrackEvent[] = [
+    { tick: 0, order: 0, bytes: meta(0x58, [4, 2, 24, 8]) }, // 4/4, 24 clocks per click, 8 32nds per quarter
+  ];
+  for (const { tick, bpm } of tempos) {
+    const microsPerQuarter = Math.round(60000000 / bpm);
+    events.push({ tick, order: 1, bytes: meta(0x51, [(microsPerQuarter >> 16) & 0xff, (microsPerQuarter >> 8) & 0xff, microsPerQuarter & 0xff]) });
+  }
+  for (const { tick, text } of texts) {
+    events.push({ tick, order: 2, bytes: meta(0x01, ascii(text)) });
+  }
+  return events;
+}
+
+function noteTrack({ name, channel, notes, bends = [], bendRange = 2 }: MidiFileTrack): TrackEvent[] {
+  const ch = (channel - 1) & 0x0f;
+  const events: TrackEvent[] = [{ tick: 0, order: 0, bytes: meta(0x03, ascii(name)) }];
+  if (bends.length > 0) {
+    // RPN 0 (pitch bend sensitivity) = bendRange, then the null RPN
+    for (const [cc, value] of [[101, 0], [100, 0], [6, clamp7(bendRange)], [38, 0], [101, 127], [100, 127]]) {
+      events.push({ tick: 0, order: 0, bytes: [0xb0 | ch, cc, value] });
+    }
+  }
+  // A note ends where the next of its pitch starts: overlapping same-pitch
+  // notes on a channel would read as on, on, off, off
+  const nextOnset = new Map<number, number>(); // Key -> start of the next note of that key
+  for (const { tick, durationTicks, pitch, velocity } of [...notes].sort((a, b) => b.tick - a.tick)) {
+    const key = clamp7(pitch);
+    const next = nextOnset.get(key);
+    if (next !== undefined && Math.round(next) <= Math.round(tick)) continue; // Doubled note
+    nextOnset.set(key, tick);
+    events.push({ tick, order: 3, bytes: [0x90 | ch, key, Math.max(1, clamp7(velocity))] });
+    events.push({ tick: Math.min(tick + Math.max(1, durationTicks), next ?? Infinity), order: 1, bytes: [0x80 | ch, key, 0] });
+  }
+  for (const { tick, semitones } of bends) {
+    const value = pitchBendValue(semitones, bendRange);
+    events.push({ tick, order: 2, bytes: [0xe0 | ch, value & 0x7f, value >> 7] });
+  }
+  return events;
+}
+
+export function writeMidiFile(spec: MidiFileSpec): Uint8Array {
+  const tracks = [tempoTrack(spec), ...spec.tracks.map(noteTrack)];
+  const header = [...ascii('MThd'), ...uint32(6), ...uint16(1), ...uint16(tracks.length), ...uint16(spec.ppq)];
+  const bytes = [...header, ...tracks.flatMap(trackChunk)];
+  return new Uint8Array(bytes);
+}
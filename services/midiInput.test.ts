@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MidiInput } from './midiInput';
+import { MIDI_CLOCK, MIDI_START, MIDI_STOP } from './midiOutput';
+
+const PULSE_MS = 500 / 24; // 120 BPM
+
+// Sends `beats` beats of clock from `start` ms, advancing the fake timers with it
+const sendClock = (input: MidiInput, beats: number, start = 0) => {
+  for (let i = 0; i < beats * 24; i++) {
+    input.handleMessage([MIDI_CLOCK], start + i * PULSE_MS);
+    vi.advanceTimersByTime(PULSE_MS);
+  }
+  return start + beats * 24 * PULSE_MS;
+};
+
+describe('MidiInput', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('reports the clock tempo once it is steady', () => {
+    const onTempo = vi.fn();
+    const input = new MidiInput({ onTempo });
+    sendClock(input, 3);
+    expect(onTempo).toHaveBeenCalledTimes(1);
+    expect(onTempo.mock.calls[0][0]).toBeCloseTo(120, 6);
+    expect(input.following).toBe(true);
+  });
+
+  it('lets go of the clock on Stop and ignores pulses until Start', () => {
+    const onTempo = vi.fn();
+    const onClockLost = vi.fn();
+    const input = new MidiInput({ onTempo, onClockLost });
+    let time = sendClock(input, 3);
+    input.handleMessage([MIDI_STOP], time);
+    expect(onClockLost).toHaveBeenCalledTimes(1);
+    expect(input.following).toBe(false);
+    expect(input.tempo).toBeNull();
+
+    time = sendClock(input, 3, time); // Many devices keep clocking while stopped
+    expect(onTempo).toHaveBeenCalledTimes(1);
+
+    input.handleMessage([MIDI_START], time);
+    sendClock(input, 3, time);
+    expect(onTempo).toHaveBeenCalledTimes(2);
+    expect(input.following).toBe(true);
+  });
+
+  it('lets go of the clock when it goes quiet', () => {
+    const onClockLost = vi.fn();
+    const input = new MidiInput({ onClockLost });
+    sendClock(input, 3);
+    vi.advanceTimersByTime(400);
+    expect(onClockLost).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(200);
+    expect(onClockLost).toHaveBeenCalledTimes(1);
+    expect(input.following).toBe(false);
+  });
+
+  it('tracks held keys across channels', () => {
+    const onHeldNotes = vi.fn();
+    const input = new MidiInput({ onHeldNotes });
+    input.handleMessage([0x90, 64, 100], 0);
+    input.handleMessage([0x91, 60, 100], 0);
+    input.handleMessage([0x90, 64, 0], 0); // Note on with velocity 0 is a note off
+    expect(onHeldNotes.mock.calls).toEqual([[[64]], [[60, 64]], [[60]]]);
+  });
+});
@@ -0,0 +1,173 @@
+import { MIDI_CLOCK, MIDI_CLOCKS_PER_QUARTER, MIDI_START, MIDI_STOP } from './midiOutput';
+
+const MIDI_CONTINUE = 0xfb;
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+
+export interface MidiMessage {
+  data: Uint8Array | number[] | null;
+  timeStamp: number; // ms, performance.now() clock
+}
+
+// The part of a Web MIDI `MIDIInput` we use. Tests can skip the port and call
+// `MidiInput.handleMessage` directly.
+export interface MidiInputPort {
+  readonly id?: string;
+  readonly name?: string | null;
+  addEventListener(type: 'midimessage', listener: (event: MidiMessage) => void): void;
+  removeEventListener(type: 'midimessage', listener: (event: MidiMessage) => void): void;
+}
+
+export interface MidiInputHandlers {
+  onTempo?: (bpm: number) => void; // Tempo of the incoming clock, about once a beat
+  onClockLost?: () => void; // Stop was received, or the clock went quiet; no tempo until it's back
+  onStart?: () => void; // From the top
+  onContinue?: () => void; // Resume where stopped
+  onStop?: () => void;
+  onHeldNotes?: (notes: number[]) => void; // Sorted MIDI notes held down, on every change
+}
+
+// Estimates tempo from MIDI clock pulses (24 per quarter), averaging a beat's
+// worth of pulse intervals to ride out jitter.
+export class MidiClockFollower {
+  private lastPulse: number | null = null;
+  private intervals: number[] = [];
+  private pulses = 0;
+  private bpm: number | null = null;
+
+  constructor(public readonly maxGapMs = 500) {}
+
+  public reset() {
+    this.lastPulse = null;
+    this.intervals = [];
+    this.pulses = 0;
+  }
+
+  // Forgets the tempo too, so the next steady beat of pulses is reported as new
+  public release() {
+    this.reset();
+    this.bpm = null;
+  }
+
+  public get tempo(): number | null { return this.bpm; }
+
+  // Returns a new tempo once per beat, when it moved by more than `tolerance` BPM
+  public pulse(time: number, tolerance = 0.5): number | null {
+    const last = this.lastPulse;
+    this.lastPulse = time;
+    if (last === null || time - last > this.maxGapMs) {
+      this.intervals = [];
+      this.pulses = 0;
+      return null;
+    }
+
+    this.intervals.push(time - last);
+    if (this.intervals.length > MIDI_CLOCKS_PER_QUARTER) this.intervals.shift();
+    if (++this.pulses % MIDI_CLOCKS_PER_QUARTER !== 0 || this.intervals.length < MIDI_CLOCKS_PER_QUARTER) return null;
+
+    const average = this.intervals.reduce((sum, i) => sum + i, 0) / this.intervals.length;
+    const bpm = 60000 / (average * MIDI_CLOCKS_PER_QUARTER);
+    if (this.bpm !== null && Math.abs(bpm - this.bpm) <= tolerance) return null;
+    this.bpm = bpm;
+    return bpm;
+  }
+}
+
+// Listens to a MIDI input: follows its clock and transport messages, and
+// tracks which keys are held (on any channel). The clock is followed until
+// Stop (pulses are then ignored until Start or Continue) or until no pulse
+// arrives for the follower's `maxGapMs`.
+export class MidiInput {
+  private port: MidiInputPort | null = null;
+  private clock = new MidiClockFollower();
+  private stopped = false;
+  private clockTimeout: ReturnType<typeof setTimeout> | null = null;
+  private held = new Set<number>();
+
+  constructor(private handlers: MidiInputHandlers) {}
+
+  public connect(port: MidiInputPort) {
+    this.disconnect();
+    this.port = port;
+    port.addEventListener('midimessage', this.listener);
+  }
+
+  public disconnect() {
+    this.port?.removeEventListener('midimessage', this.listener);
+    this.port = null;
+    this.clearClockTimeout();
+    this.clock.release();
+    this.stopped = false;
+    if (this.held.size > 0) {
+      this.held.clear();
+      this.handlers.onHeldNotes?.([]);
+    }
+  }
+
+  public get portName(): string | null { return this.port ? (this.port.name ?? this.port.id ?? 'MIDI') : null; }
+  public get tempo(): number | null { return this.clock.tempo; }
+  public get following(): boolean { return this.clock.tempo !== null; }
+
+  private listener = (event: MidiMessage) => {
+    if (event.data) this.handleMessage(event.data, event.timeStamp);
+  };
+
+  public handleMessage(data: Uint8Array | number[], time: number) {
+    const [status, data1, data2] = data;
+    switch (status) {
+      case MIDI_CLOCK: {
+        if (this.stopped) return;
+        this.clearClockTimeout();
+        this.clockTimeout = setTimeout(() => this.loseClock(), this.clock.maxGapMs);
+        const bpm = this.clock.pulse(time);
+        if (bpm !== null) this.handlers.onTempo?.(bpm);
+        return;
+      }
+      case MIDI_START:
+        this.stopped = false;
+        this.clock.reset();
+        this.handlers.onStart?.();
+        return;
+      case MIDI_CONTINUE:
+        this.stopped = false;
+        this.clock.reset();
+        this.handlers.onContinue?.();
+        return;
+      case MIDI_STOP:
+        this.stopped = true;
+        this.loseClock();
+        this.handlers.onStop?.();
+        return;
+    }
+
+    const type = status & 0xf0;
+    if (type === NOTE_ON && data2 > 0) {
+      if (this.held.has(data1)) return;
+      this.held.add(data1);
+    } else if (type === NOTE_OFF || type === NOTE_ON) {
+      if (!this.held.delete(data1)) return;
+    } else {
+      return;
+    }
+    this.handlers.onHeldNotes?.([...this.held].sort((a, b) => a - b));
+  }
+
+  private loseClock() {
+    this.clearClockTimeout();
+    const wasFollowing = this.following;
+    this.clock.release();
+    if (wasFollowing) this.handlers.onClockLost?.();
+  }
+
+  private clearClockTimeout() {
+    if (this.clockTimeout !== null) clearTimeout(this.clockTimeout);
+    this.clockTimeout = null;
+  }
+}
+
+// Web MIDI inputs, or an empty list where the browser has no Web MIDI
+export async function listMidiInputs(): Promise<MIDIInput[]> {
+  if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) return [];
+  const access = await navigator.requestMIDIAccess();
+  return Array.from(access.inputs.values());
+}
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MIDI_CLOCK, MIDI_START, MIDI_STOP, MidiOutput, MidiPort } from './midiOutput';
+
+// Records what MidiOutput sends instead of talking to a device
+class MockPort implements MidiPort {
+  public readonly name = 'Mock';
+  public sent: { data: number[]; timestamp?: number }[] = [];
+  send(data: number[], timestamp?: number) { this.sent.push({ data, timestamp }); }
+}
+
+// The audio clock starts at 0 and only moves when the test says, timers with it
+const setup = () => {
+  const port = new MockPort();
+  let now = 0;
+  const midi = new MidiOutput(port, { now: () => now });
+  const advance = (seconds: number) => {
+    now += seconds;
+    vi.advanceTimersByTime(seconds * 1000);
+  };
+  return { port, midi, advance };
+};
+
+describe('MidiOutput', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('sends a note on and a timed note off on the role channel', () => {
+    const { port, midi, advance } = setup();
+    midi.note('RHYTHM', 'C4', 0.5, 2, 1);
+    midi.note('LEAD', 64, 0.25, 3, 0); // Velocity 0 still sounds
+    advance(4);
+    expect(port.sent).toEqual([
+      { data: [0x91, 60, 127], timestamp: 2000 },
+      { data: [0x90, 64, 1], timestamp: 3000 },
+      { data: [0x81, 60, 0], timestamp: 2500 },
+      { data: [0x80, 64, 0], timestamp: 3250 },
+    ]);
+  });
+
+  it('holds note-offs back until they are nearly due', () => {
+    const { port, midi, advance } = setup();
+    midi.note('LEAD', 60, 0.25, 1);
+    advance(1.1);
+    expect(port.sent).toEqual([{ data: [0x90, 60, 127], timestamp: 1000 }]);
+    advance(0.06);
+    expect(port.sent).toEqual([{ data: [0x90, 60, 127], timestamp: 1000 }, { data: [0x80, 60, 0], timestamp: 1250 }]);
+  });
+
+  it('ends a note where the same pitch starts again', () => {
+    const { port, midi, advance } = setup();
+    // Continuous mode: 8th notes retriggered every 16th
+    midi.note('LEAD', 60, 0.25, 1);
+    midi.note('LEAD', 60, 0.25, 1.125);
+    midi.note('RHYTHM', 60, 0.25, 1.125); // Other channel
+    advance(2);
+    expect(port.sent).toEqual([
+      { data: [0x90, 60, 127], timestamp: 1000 },
+      { data: [0x80, 60, 0], timestamp: 1125 },
+      { data: [0x90, 60, 127], timestamp: 1125 },
+      { data: [0x91, 60, 127], timestamp: 1125 },
+      { data: [0x80, 60, 0], timestamp: 1375 },
+      { data: [0x81, 60, 0], timestamp: 1375 },
+    ]);
+  });
+
+  it('lets a note that ends before the next one of its pitch end on time', () => {
+    const { port, midi, advance } = setup();
+    midi.note('LEAD', 60, 0.1, 1);
+    midi.note('LEAD', 60, 0.25, 1.5);
+    advance(2);
+    expect(port.sent.map(m => m.timestamp)).toEqual([1000, 1500, 1100, 1750]);
+    expect(port.sent.map(m => m.data[0])).toEqual([0x90, 0x90, 0x80, 0x80]);
+  });
+
+  it('plays drums on channel 10 with General MIDI notes', () => {
+    const { port, midi } = setup();
+    midi.drum('snare', 0.1, 0, 0.5); // Already due: no holding back
+    expect(port.sent.map(m => m.data)).toEqual([[0x99, 38, 64], [0x89, 38, 0]]);
+  });
+
+  it('only sends a control change when its 7-bit value changes', () => {
+    const { port, midi } = setup();
+    midi.control('LEAD', 'squeeze', 0.5);
+    midi.control('LEAD', 'squeeze', 0.501); // Same 7-bit value
+    midi.control('RHYTHM', 'squeeze', 0.5); // Other channel
+    midi.control('LEAD', 'x', 0.5); // Other controller
+    midi.control('LEAD', 'squeeze', 1);
+    expect(port.sent.map(m => m.data)).toEqual([
+      [0xb0, 1, 64],
+      [0xb1, 1, 64],
+      [0xb0, 74, 64],
+      [0xb0, 1, 127],
+    ]);
+  });
+
+  it('stops the receiver, silences every channel and resends controls afterwards', () => {
+    const { port, midi } = setup();
+    midi.control('LEAD', 'squeeze', 0.5);
+    port.sent = [];
+    midi.stop();
+    expect(port.sent.map(m => m.data)).toEqual([
+      [MIDI_STOP],
+      [0xb0, 123, 0],
+      [0xb1, 123, 0],
+      [0xb2, 123, 0],
+      [0xb9, 123, 0],
+    ]);
+    port.sent = [];
+    midi.control('LEAD', 'squeeze', 0.5);
+    expect(port.sent.map(m => m.data)).toEqual([[0xb0, 1, 64]]);
+  });
+
+  it('drops held-back note-offs on stop', () => {
+    const { port, midi, advance } = setup();
+    midi.note('LEAD', 60, 0.25, 1);
+    midi.stop();
+    advance(2);
+    expect(port.sent.filter(m => (m.data[0] & 0xf0) === 0x80)).toEqual([]);
+  });
+
+  it('sets the bend range before the first bend and only sends changes', () => {
+    const { port, midi } = setup();
+    midi.pitchBend('LEAD', 0.5, 1);
+    midi.pitchBend('LEAD', 0.501, 1.1); // Same 14-bit value
+    midi.pitchBend('LEAD', -30, 1.2); // Clamped to the range
+    expect(port.sent).toEqual([
+      ...[[101, 0], [100, 0], [6, 24], [38, 0], [101, 127], [100, 127]].map(([cc, value]) => ({ data: [0xb0, cc, value], timestamp: 1000 })),
+      { data: [0xe0, 0x2b, 0x41], timestamp: 1000 },
+      { data: [0xe0, 0x00, 0x00], timestamp: 1200 },
+    ]);
+  });
+
+  it('holds notes until told to let go', () => {
+    const { port, midi } = setup();
+    midi.noteOn('LEAD', 62, 1, 0.5);
+    midi.noteOff('LEAD', 62, 3);
+    expect(port.sent).toEqual([{ data: [0x90, 62, 64], timestamp: 1000 }, { data: [0x80, 62, 0], timestamp: 3000 }]);
+  });
+
+  it('straightens bent channels on stop', () => {
+    const { port, midi } = setup();
+    midi.pitchBend('LEAD', 2, 0);
+    midi.pitchBend('RHYTHM', 0, 0);
+    port.sent = [];
+    midi.stop();
+    expect(port.sent.map(m => m.data).slice(5)).toEqual([[0xe0, 0x00, 0x40]]);
+  });
+
+  it('starts at an optional time', () => {
+    const { port, midi } = setup();
+    midi.start();
+    midi.start(1.5);
+    expect(port.sent).toEqual([{ data: [MIDI_START], timestamp: undefined }, { data: [MIDI_START], timestamp: 1500 }]);
+  });
+
+  it('spaces a beat of clock evenly from the tempo', () => {
+    const { port, midi } = setup();
+    midi.clockBeat(1, () => 120);
+    expect(port.sent).toHaveLength(24);
+    port.sent.forEach(({ data, timestamp }, i) => {
+      expect(data).toEqual([MIDI_CLOCK]);
+      expect(timestamp).toBeCloseTo(1000 + i * (500 / 24), 6);
+    });
+  });
+
+  it('follows a tempo change within the beat', () => {
+    const { port, midi } = setup();
+    midi.clockBeat(0, t => (t < 0.25 ? 120 : 60));
+    const gaps = port.sent.slice(1).map((m, i) => m.timestamp! - port.sent[i].timestamp!);
+    expect(gaps[0]).toBeCloseTo(500 / 24, 6);
+    expect(gaps[gaps.length - 1]).toBeCloseTo(1000 / 24, 6);
+  });
+});
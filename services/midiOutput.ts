@@ -0,0 +1,183 @@
+import { NoteType } from '../types';
+import { DrumVoice } from './drumPatterns';
+import { noteToMidi } from './harmony';
+import { pitchBendValue } from './midiFile';
+
+// The part of a Web MIDI `MIDIOutput` we use. Tests pass a mock that records messages.
+export interface MidiPort {
+  readonly id?: string;
+  readonly name?: string | null;
+  send(data: number[], timestamp?: number): void;
+}
+
+export type MidiRole = NoteType | 'DRUMS';
+export type MidiControl = 'squeeze' | 'x';
+
+export interface MidiOutputOptions {
+  channels: Record<MidiRole, number>; // 1-16
+  controls: Record<MidiControl, number>; // CC numbers
+  drumNotes: Record<DrumVoice, number>;
+  // Converts an audio-clock time (seconds, as used by Tone) to a MIDI
+  // timestamp (ms on the performance.now() clock)
+  toTimestamp: (time: number) => number;
+  now: () => number; // The audio clock (seconds) now, for holding back note-offs
+}
+
+export const DEFAULT_MIDI_OPTIONS: MidiOutputOptions = {
+  channels: { LEAD: 1, RHYTHM: 2, BASS: 3, DRUMS: 10 }, // Drums on the General MIDI channel
+  controls: { squeeze: 1, x: 74 }, // Mod wheel and brightness
+  drumNotes: { kick: 36, snare: 38, hihat: 42, openHat: 46, ride: 51 }, // General MIDI kit
+  toTimestamp: time => time * 1000,
+  now: () => performance.now() / 1000,
+};
+
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const CONTROL_CHANGE = 0xb0;
+const PITCH_BEND = 0xe0;
+const BEND_CENTRE = 8192;
+const ALL_NOTES_OFF = 123;
+// How long before they're due held-back note-offs are sent (seconds)
+const NOTE_OFF_LEAD = 0.1;
+export const MIDI_CLOCK = 0xf8;
+export const MIDI_START = 0xfa;
+export const MIDI_STOP = 0xfc;
+export const MIDI_CLOCKS_PER_QUARTER = 24;
+// Pitch bend sensitivity (semitones either way) set on a channel before its
+// first bend, wide enough for theremin glides
+export const PITCH_BEND_RANGE = 24;
+
+const to7Bit = (value: number) => Math.max(0, Math.min(127, Math.round(value * 127)));
+
+// Mirrors the engine's notes, gestures and transport to a MIDI port.
+// Knows nothing about Tone: times arrive as audio-clock seconds and are
+// converted with `toTimestamp`, so messages are scheduled sample-accurately
+// by the browser rather than sent late from a callback.
+export class MidiOutput {
+  private port: MidiPort;
+  private options: MidiOutputOptions;
+  private lastControl = new Map<number, number>(); // (channel << 7 | cc) -> last value
+  private lastBend = new Map<number, number>(); // channel -> last 14-bit value
+  // Timed notes' note-offs, held back until they're nearly due: a sent one
+  // can't be taken back, and a note retriggered before it would be cut short
+  private pendingOffs = new Map<number, { time: number; timer: ReturnType<typeof setTimeout> }>(); // (channel << 7 | pitch) -> note-off
+
+  constructor(port: MidiPort, options: Partial<MidiOutputOptions> = {}) {
+    this.port = port;
+    this.options = { ...DEFAULT_MIDI_OPTIONS, ...options };
+  }
+
+  public get portName(): string { return this.port.name ?? this.port.id ?? 'MIDI'; }
+
+  // Note on at `time`, note off `duration` seconds later (or when the same
+  // pitch starts again on the channel, if that's sooner)
+  public note(role: MidiRole, note: string | number, duration: number, time: number, velocity = 1) {
+    const pitch = typeof note === 'number' ? note : noteToMidi(note);
+    this.noteOn(role, pitch, time, velocity);
+    this.holdNoteOff(role, pitch, time + duration);
+  }
+
+  // Held notes, for voices whose length isn't known up front (the theremin).
+  // A same-pitch note still sounding on the channel ends as this one starts.
+  public noteOn(role: MidiRole, pitch: number, time: number, velocity = 1) {
+    const channel = this.options.channels[role] - 1;
+    const pending = this.pendingOffs.get((channel << 7) | pitch);
+    if (pending && pending.time >= time) this.noteOff(role, pitch, time);
+    const vel = Math.max(1, to7Bit(velocity)); // Velocity 0 would read as a note off
+    this.port.send([NOTE_ON | channel, pitch, vel], this.options.toTimestamp(time));
+  }
+
+  public noteOff(role: MidiRole, pitch: number, time: number) {
+    const channel = this.options.channels[role] - 1;
+    const key = (channel << 7) | pitch;
+    const pending = this.pendingOffs.get(key);
+    if (pending) clearTimeout(pending.timer);
+    this.pendingOffs.delete(key);
+    this.port.send([NOTE_OFF | channel, pitch, 0], this.options.toTimestamp(time));
+  }
+
+  private holdNoteOff(role: MidiRole, pitch: number, time: number) {
+    const wait = time - NOTE_OFF_LEAD - this.options.now();
+    if (wait <= 0) {
+      this.noteOff(role, pitch, time);
+      return;
+    }
+    const key = ((this.options.channels[role] - 1) << 7) | pitch;
+    const pending = { time, timer: setTimeout(() => this.noteOff(role, pitch, time), wait * 1000) };
+    // An earlier note of this pitch that ends before `time` still ends on time
+    const earlier = this.pendingOffs.get(key);
+    if (earlier) {
+      clearTimeout(earlier.timer);
+      this.port.send([NOTE_OFF | (key >> 7), pitch, 0], this.options.toTimestamp(earlier.time));
+    }
+    this.pendingOffs.set(key, pending);
+  }
+
+  // Bends the role's channel by `semitones` (within ±PITCH_BEND_RANGE). Only
+  // sends changes, since glides update every frame.
+  public pitchBend(role: MidiRole, semitones: number, time: number) {
+    const channel = this.options.channels[role] - 1;
+    const value = pitchBendValue(semitones, PITCH_BEND_RANGE);
+    const last = this.lastBend.get(channel);
+    if (last === value) return;
+    if (last === undefined) {
+      // RPN 0 (pitch bend sensitivity), then the null RPN
+      for (const [cc, data] of [[101, 0], [100, 0], [6, PITCH_BEND_RANGE], [38, 0], [101, 127], [100, 127]]) {
+        this.port.send([CONTROL_CHANGE | channel, cc, data], this.options.toTimestamp(time));
+      }
+    }
+    this.lastBend.set(channel, value);
+    this.port.send([PITCH_BEND | channel, value & 0x7f, value >> 7], this.options.toTimestamp(time));
+  }
+
+  public drum(voice: DrumVoice, duration: number, time: number, velocity = 1) {
+    this.note('DRUMS', this.options.drumNotes[voice], duration, time, velocity);
+  }
+
+  // `value` 0-1. Only sends when the 7-bit value changes, since gestures update every frame.
+  public control(role: MidiRole, control: MidiControl, value: number) {
+    const channel = this.options.channels[role] - 1;
+    const cc = this.options.controls[control];
+    const data = to7Bit(value);
+    const key = (channel << 7) | cc;
+    if (this.lastControl.get(key) === data) return;
+    this.lastControl.set(key, data);
+    this.port.send([CONTROL_CHANGE | channel, cc, data]);
+  }
+
+  public clock(time: number) { this.port.send([MIDI_CLOCK], this.options.toTimestamp(time)); }
+
+  // One beat of clock from `time`, evenly spaced at the tempo `bpmAt` gives
+  // for each pulse (so ramps are followed). Call on every beat: pulses are
+  // timed from the tempo rather than the transport's ticks, which swing.
+  public clockBeat(time: number, bpmAt: (time: number) => number) {
+    let t = time;
+    for (let i = 0; i < MIDI_CLOCKS_PER_QUARTER; i++) {
+      this.clock(t);
+      t += 60 / bpmAt(t) / MIDI_CLOCKS_PER_QUARTER;
+    }
+  }
+  public start(time?: number) { this.port.send([MIDI_START], time === undefined ? undefined : this.options.toTimestamp(time)); }
+
+  // Stop the receiver's transport, silence every channel we play on and
+  // straighten any bent ones
+  public stop() {
+    this.port.send([MIDI_STOP]);
+    const channels = new Set(Object.values(this.options.channels));
+    channels.forEach(ch => this.port.send([CONTROL_CHANGE | (ch - 1), ALL_NOTES_OFF, 0]));
+    this.lastBend.forEach((value, channel) => {
+      if (value !== BEND_CENTRE) this.port.send([PITCH_BEND | channel, BEND_CENTRE & 0x7f, BEND_CENTRE >> 7]);
+    });
+    this.pendingOffs.forEach(({ timer }) => clearTimeout(timer)); // All Notes Off covers them
+    this.pendingOffs.clear();
+    this.lastControl.clear();
+    this.lastBend.clear();
+  }
+}
+
+// Web MIDI outputs, or an empty list where the browser has no Web MIDI
+export async function listMidiOutputs(): Promise<MIDIOutput[]> {
+  if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) return [];
+  const access = await navigator.requestMIDIAccess();
+  return Array.from(access.outputs.values());
+}
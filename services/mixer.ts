@@ -0,0 +1,129 @@
+import * as Tone from 'tone';
+import { LevelProbe } from './audioAnalysis';
+
+// =================================================================
+// MIXER
+// =================================================================
+
+export type MixerChannelId = 'lead' | 'rhythm' | 'bass' | 'kick' | 'snare' | 'hats';
+
+export const MIXER_CHANNELS: MixerChannelId[] = ['lead', 'rhythm', 'bass', 'kick', 'snare', 'hats'];
+
+export interface ChannelSettings {
+  gain: number; // dB, on top of the genre's own voice levels
+  pan: number; // -1 (left) to 1 (right)
+  mute: boolean;
+  solo: boolean;
+  send: number; // 0-1, post-fader level into the master reverb
+}
+
+export type MixSettings = Record<MixerChannelId, ChannelSettings>;
+
+const channel = (send: number): ChannelSettings => ({ gain: 0, pan: 0, mute: false, solo: false, send });
+
+// The hands, snare and cymbals sit in the room; bass and kick stay dry and upfront
+export const DEFAULT_MIX: MixSettings = {
+  lead: channel(1),
+  rhythm: channel(1),
+  bass: channel(0),
+  kick: channel(0),
+  snare: channel(1),
+  hats: channel(0.5),
+};
+
+// Channels the mute shortcuts toggle together
+export type MuteGroup = 'drums' | 'bass' | 'hands';
+
+export const MUTE_GROUPS: Record<MuteGroup, MixerChannelId[]> = {
+  drums: ['kick', 'snare', 'hats'],
+  bass: ['bass'],
+  hands: ['lead', 'rhythm'],
+};
+
+const RAMP = 0.05; // Seconds; hides zipper noise while dragging a fader
+const METER_FALLBACK = 0.8; // Per read, like Tone.Meter's smoothing
+
+interface Strip {
+  channel: Tone.Channel;
+  send: Tone.Gain;
+  tap: AnalyserNode;
+  probe: LevelProbe;
+  held: number; // Meter reading, falling back slowly from peaks
+}
+
+// A channel strip per role. The mixer outlives genres: each genre's rack
+// plugs into `inputs` when it is built and drops out when it is disposed, so
+// the mix set during a performance carries over to the next genre.
+export class Mixer {
+  public readonly inputs: Record<MixerChannelId, Tone.InputNode>;
+  private strips: Record<MixerChannelId, Strip>;
+  private settings: MixSettings;
+
+  // Strips play into `destination` and send into `reverb` (a fully wet return)
+  constructor(reverb: Tone.InputNode, destination: Tone.InputNode, settings: MixSettings = DEFAULT_MIX) {
+    const strips = {} as Record<MixerChannelId, Strip>;
+    const inputs = {} as Record<MixerChannelId, Tone.InputNode>;
+    for (const id of MIXER_CHANNELS) {
+      const tap = Tone.getContext().createAnalyser();
+      tap.fftSize = 256;
+      const strip = { channel: new Tone.Channel(), send: new Tone.Gain(0), tap, probe: new LevelProbe(tap), held: 0 };
+      strip.channel.fan(destination, strip.send, tap);
+      strip.send.connect(reverb);
+      strips[id] = strip;
+      inputs[id] = strip.channel;
+    }
+    this.strips = strips;
+    this.inputs = inputs;
+    this.settings = settings;
+    this.setMix(settings);
+  }
+
+  public getMix(): MixSettings { return this.settings; }
+
+  public setMix(settings: MixSettings) {
+    MIXER_CHANNELS.forEach(id => this.set(id, settings[id]));
+  }
+
+  public set(id: MixerChannelId, changes: Partial<ChannelSettings>) {
+    const settings = { ...this.settings[id], ...changes };
+    this.settings = { ...this.settings, [id]: settings };
+    const { channel, send } = this.strips[id];
+    // Automation Safety
+    try {
+      // Muting parks the fader at -Infinity and restores it on unmute, so
+      // only move the fader while the channel is open
+      channel.mute = settings.mute;
+      if (!settings.mute) channel.volume.rampTo(settings.gain, RAMP);
+      channel.pan.rampTo(settings.pan, RAMP);
+      channel.solo = settings.solo;
+      send.gain.rampTo(settings.send, RAMP);
+    } catch (e) { console.warn(`Could not set the ${id} channel`, e); }
+  }
+
+  // Mutes the whole group, or unmutes it if it's already all muted
+  public toggleMute(group: MuteGroup) {
+    const ids = MUTE_GROUPS[group];
+    const mute = !ids.every(id => this.settings[id].mute);
+    ids.forEach(id => this.set(id, { mute }));
+  }
+
+  // Post-fader output RMS right now (linear); allocation-free, for per-frame analysis
+  public rms(id: MixerChannelId): number {
+    return this.strips[id].probe.read();
+  }
+
+  // Post-fader output level for a meter display, 0-1, holding peaks
+  public level(id: MixerChannelId): number {
+    const strip = this.strips[id];
+    strip.held = Math.max(strip.probe.read(), strip.held * METER_FALLBACK);
+    return strip.held;
+  }
+
+  public dispose() {
+    for (const { channel, send, tap } of Object.values(this.strips)) {
+      channel.dispose();
+      send.dispose();
+      tap.disconnect();
+    }
+  }
+}
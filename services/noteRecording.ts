@@ -0,0 +1,177 @@
+import { DEFAULT_MIDI_OPTIONS, MidiRole, PITCH_BEND_RANGE } from './midiOutput';
+import { MidiFileBend, MidiFileSpec, MidiFileTrack } from './midiFile';
+import { DrumVoice } from './drumPatterns';
+import { ThereminPoint } from './theremin';
+import { CONTROL_SOURCES, ParameterMapping } from './mappings';
+import { DEFAULT_MIX, MixSettings } from './mixer';
+import { HandControls, ReverbSettings } from '../types';
+import { RackPatch } from '../genres/types';
+
+// Every note the engine plays, both on the Transport's tick grid (for MIDI)
+// and in seconds (for re-rendering audio). Both are taken at the time the
+// note actually sounds, so swing and humanised offsets are kept.
+export interface NoteEvent {
+  role: MidiRole;
+  pitch: number; // MIDI note (General MIDI kit note for DRUMS)
+  voice?: DrumVoice; // DRUMS only
+  tick: number;
+  durationTicks: number;
+  time: number; // Seconds since the take started
+  duration: number; // Seconds
+  velocity: number; // 0-1
+  pan?: number; // Hand notes only, as played: -1 (left) to 1 (right)
+  filterAmount?: number; // Hand notes only, as played: 0-1
+  glide?: GlidePoint[]; // Theremin notes only: the path from the start (`pitch` is the start, rounded)
+}
+
+export interface GlidePoint extends ThereminPoint {
+  tick: number;
+}
+
+// A hand's controls (what the parameter mappings read)
+export interface ControlEvent extends HandControls {
+  role: 'LEAD' | 'RHYTHM';
+  time: number; // Seconds since the take started
+}
+
+export interface TempoEvent {
+  tick: number;
+  bpm: number;
+  swing: number;
+}
+
+export interface NoteTake {
+  genre: string;
+  createdAt: string; // ISO date
+  ppq: number;
+  notes: NoteEvent[]; // Ticks relative to the first bar of the take
+  controls: ControlEvent[];
+  mappings: ParameterMapping[]; // In force when the take started, to replay `controls`
+  patch: RackPatch; // Voices, reverb and mix as heard, so stems render the same
+  reverb: ReverbSettings;
+  mix: MixSettings;
+  tempo: TempoEvent[];
+}
+
+// How the engine was set up when a take started
+export type TakeSetup = Pick<NoteTake, 'genre' | 'mappings' | 'patch' | 'reverb' | 'mix'>;
+
+// =================================================================
+// RECORDING
+// =================================================================
+
+export class NoteRecorder {
+  private notes: NoteEvent[] = [];
+  private controls: ControlEvent[] = [];
+  private lastControl: Partial<Record<ControlEvent['role'], ControlEvent>> = {};
+  private tempo: TempoEvent[] = [];
+  private startTick = 0;
+  private startTime = 0;
+  private setup: TakeSetup = { genre: '', mappings: [], patch: {}, reverb: { decay: 0, wet: 0 }, mix: DEFAULT_MIX };
+  private createdAt = '';
+  private isRecording = false;
+
+  constructor(private ppq: number) {}
+
+  public get recording() { return this.isRecording; }
+
+  // `tick` and `time` (audio clock, seconds) are where recording starts. For
+  // MIDI the take begins on that bar's downbeat; audio starts right away.
+  public start(setup: TakeSetup, tick: number, time: number, bpm: number, swing: number) {
+    const ticksPerBar = this.ppq * 4;
+    this.startTick = Math.floor(tick / ticksPerBar) * ticksPerBar;
+    this.startTime = time;
+    this.notes = [];
+    this.controls = [];
+    this.lastControl = {};
+    this.tempo = [{ tick: 0, bpm, swing }];
+    this.setup = setup;
+    this.createdAt = new Date().toISOString();
+    this.isRecording = true;
+  }
+
+  // `tick` and `time` are absolute (Transport ticks, audio clock)
+  public note(event: NoteEvent) {
+    if (!this.isRecording || event.time < this.startTime) return;
+    const shift = <T extends { tick: number; time: number }>(e: T): T =>
+      ({ ...e, tick: e.tick - this.startTick, time: e.time - this.startTime });
+    this.notes.push(event.glide ? { ...shift(event), glide: event.glide.map(shift) } : shift(event));
+  }
+
+  // Gestures arrive every frame; only changes are kept
+  public control(event: ControlEvent) {
+    if (!this.isRecording) return;
+    const last = this.lastControl[event.role];
+    if (last && CONTROL_SOURCES.every(source => last[source] === event[source])) return;
+    const logged = { ...event, time: Math.max(0, event.time - this.startTime) };
+    this.lastControl[event.role] = event;
+    this.controls.push(logged);
+  }
+
+  // Log the tempo/swing in force at `tick`; unchanged values are skipped
+  public tempoAt(tick: number, bpm: number, swing: number) {
+    if (!this.isRecording) return;
+    const last = this.tempo[this.tempo.length - 1];
+    if (Math.abs(last.bpm - bpm) < 0.05 && Math.abs(last.swing - swing) < 0.005) return;
+    this.tempo.push({ tick: Math.max(last.tick, tick - this.startTick), bpm, swing });
+  }
+
+  public stop(): NoteTake {
+    this.isRecording = false;
+    const notes = [...this.notes].sort((a, b) => a.time - b.time);
+    return { ...this.setup, createdAt: this.createdAt, ppq: this.ppq, notes, controls: this.controls, tempo: this.tempo };
+  }
+}
+
+// =================================================================
+// EXPORT
+// =================================================================
+
+const TRACK_NAMES: Record<MidiRole, string> = {
+  LEAD: 'Lead (Right Hand)',
+  RHYTHM: 'Rhythm (Left Hand)',
+  BASS: 'Bass',
+  DRUMS: 'Drums',
+};
+
+// A theremin note's glide as pitch bend from its start note, straightened as it ends
+const glideBends = ({ tick, durationTicks, pitch, glide = [] }: NoteEvent): MidiFileBend[] => glide.length === 0 ? [] : [
+  ...glide.map(point => ({ tick: point.tick, semitones: point.pitch - pitch })),
+  { tick: tick + durationTicks, semitones: 0 },
+];
+
+// One track per role, on the same channels as live MIDI output. The tempo
+// map follows the take; swing changes are noted as text events, and theremin
+// glides as pitch bend.
+export function noteTakeToMidiFile(take: NoteTake, channels: Record<MidiRole, number> = DEFAULT_MIDI_OPTIONS.channels): MidiFileSpec {
+  const roles = Object.keys(TRACK_NAMES) as MidiRole[];
+  const tracks: MidiFileTrack[] = roles
+    .map(role => {
+      const notes = take.notes.filter(n => n.role === role);
+      return {
+        name: TRACK_NAMES[role],
+        channel: channels[role],
+        notes: notes.map(({ tick, durationTicks, pitch, velocity }) => ({ tick, durationTicks, pitch, velocity: velocity * 127 })),
+        bends: notes.flatMap(glideBends),
+        bendRange: PITCH_BEND_RANGE,
+      };
+    })
+    .filter(track => track.notes.length > 0);
+
+  const texts = [{ tick: 0, text: `${take.genre} ${take.createdAt}` }];
+  let lastSwing: number | null = null;
+  for (const { tick, swing } of take.tempo) {
+    if (swing === lastSwing) continue;
+    texts.push({ tick, text: `swing ${swing.toFixed(2)}` });
+    lastSwing = swing;
+  }
+
+  return {
+    ppq: take.ppq,
+    tempos: take.tempo
+      .filter((t, i, all) => i === 0 || t.bpm !== all[i - 1].bpm)
+      .map(({ tick, bpm }) => ({ tick, bpm })),
+    texts,
+    tracks,
+  };
+}
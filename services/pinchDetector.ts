@@ -0,0 +1,62 @@
+import { HandSide, Landmark } from '../types';
+
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9;
+
+// Distances are measured relative to palm size (wrist to middle knuckle),
+// so the thresholds hold regardless of how far the hand is from the camera.
+export interface PinchThresholds {
+  engage: number; // Pinch starts below this ratio
+  release: number; // Pinch ends above this ratio (must be > engage)
+}
+
+export const DEFAULT_PINCH_THRESHOLDS: Record<HandSide, PinchThresholds> = {
+  left: { engage: 0.35, release: 0.5 },
+  right: { engage: 0.35, release: 0.5 },
+};
+
+const dist2D = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export function getPinchRatio(landmarks: Landmark[]): number {
+  if (!landmarks || landmarks.length < 21) return Infinity;
+  const palm = dist2D(landmarks[WRIST], landmarks[MIDDLE_MCP]);
+  if (palm <= 0) return Infinity;
+  return dist2D(landmarks[THUMB_TIP], landmarks[INDEX_TIP]) / palm;
+}
+
+export class PinchDetector {
+  private thresholds: Record<HandSide, PinchThresholds>;
+  private pinching: Record<HandSide, boolean> = { left: false, right: false };
+
+  constructor(thresholds: Partial<Record<HandSide, PinchThresholds>> = {}) {
+    this.thresholds = { ...DEFAULT_PINCH_THRESHOLDS, ...thresholds };
+  }
+
+  public setThresholds(side: HandSide, thresholds: PinchThresholds) {
+    this.thresholds[side] = thresholds;
+  }
+
+  // Hysteresis: a pinch only toggles once the ratio crosses the far threshold,
+  // so jitter around a single value can't retrigger notes.
+  public update(side: HandSide, landmarks: Landmark[]): boolean {
+    const ratio = getPinchRatio(landmarks);
+    const { engage, release } = this.thresholds[side];
+    if (this.pinching[side]) {
+      if (ratio > release) this.pinching[side] = false;
+    } else if (ratio < engage) {
+      this.pinching[side] = true;
+    }
+    return this.pinching[side];
+  }
+
+  // Call when a hand leaves the frame
+  public release(side: HandSide) {
+    this.pinching[side] = false;
+  }
+
+  public reset() {
+    this.pinching = { left: false, right: false };
+  }
+}
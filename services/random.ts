@@ -0,0 +1,15 @@
+// Seeded PRNG (mulberry32) for generators that must be reproducible.
+// Returns floats in [0, 1) like Math.random.
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const pickRandom = <T>(items: T[], random: () => number): T =>
+  items[Math.floor(random() * items.length)];
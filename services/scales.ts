@@ -0,0 +1,82 @@
+import { midiToNote, parseChord, pitchClassOf, PitchRange, voicePitchSet } from './harmony';
+
+// =================================================================
+// SCALE LIBRARY
+// =================================================================
+
+export type ScaleId =
+  | 'ionian' | 'dorian' | 'phrygian' | 'lydian' | 'mixolydian' | 'aeolian' | 'locrian'
+  | 'majorPentatonic' | 'minorPentatonic' | 'blues' | 'majorBlues'
+  | 'bebopDominant' | 'bebopMajor' | 'bebopDorian'
+  | 'wholeTone' | 'harmonicMinor' | 'melodicMinor';
+
+export interface ScaleDefinition {
+  label: string;
+  intervals: number[]; // Semitones above the tonic
+}
+
+// Menu order follows this order
+export const SCALES: Record<ScaleId, ScaleDefinition> = {
+  ionian: { label: 'Major', intervals: [0, 2, 4, 5, 7, 9, 11] },
+  dorian: { label: 'Dorian', intervals: [0, 2, 3, 5, 7, 9, 10] },
+  phrygian: { label: 'Phrygian', intervals: [0, 1, 3, 5, 7, 8, 10] },
+  lydian: { label: 'Lydian', intervals: [0, 2, 4, 6, 7, 9, 11] },
+  mixolydian: { label: 'Mixolydian', intervals: [0, 2, 4, 5, 7, 9, 10] },
+  aeolian: { label: 'Minor', intervals: [0, 2, 3, 5, 7, 8, 10] },
+  locrian: { label: 'Locrian', intervals: [0, 1, 3, 5, 6, 8, 10] },
+  majorPentatonic: { label: 'Major Pentatonic', intervals: [0, 2, 4, 7, 9] },
+  minorPentatonic: { label: 'Minor Pentatonic', intervals: [0, 3, 5, 7, 10] },
+  blues: { label: 'Blues', intervals: [0, 3, 5, 6, 7, 10] },
+  majorBlues: { label: 'Major Blues', intervals: [0, 2, 3, 4, 7, 9] },
+  bebopDominant: { label: 'Bebop Dominant', intervals: [0, 2, 4, 5, 7, 9, 10, 11] },
+  bebopMajor: { label: 'Bebop Major', intervals: [0, 2, 4, 5, 7, 8, 9, 11] },
+  bebopDorian: { label: 'Bebop Dorian', intervals: [0, 2, 3, 4, 5, 7, 9, 10] },
+  wholeTone: { label: 'Whole Tone', intervals: [0, 2, 4, 6, 8, 10] },
+  harmonicMinor: { label: 'Harmonic Minor', intervals: [0, 2, 3, 5, 7, 8, 11] },
+  melodicMinor: { label: 'Melodic Minor', intervals: [0, 2, 3, 5, 7, 9, 11] },
+};
+
+export const SCALE_IDS = Object.keys(SCALES) as ScaleId[];
+
+// =================================================================
+// KEYS & TRANSPOSITION
+// =================================================================
+
+// Key names as a player would read them, indexed by pitch class
+export const KEY_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const SHARP_KEYS = new Set([2, 4, 6, 7, 9, 11]); // D E F# G A B
+
+// Minor keys are spelled like their relative major (G minor has flats, E minor a sharp)
+export const keyPrefersFlats = (tonic: number, minor = false) =>
+  !SHARP_KEYS.has((((tonic + (minor ? 3 : 0)) % 12) + 12) % 12);
+
+const isMinor = (scale: ScaleId) => SCALES[scale].intervals.includes(3);
+
+// What the hands play in: the genre's progression moved to `tonic`, and
+// either its chord-scales ('changes') or one scale over the whole tune
+export interface KeySelection {
+  tonic: number; // Pitch class
+  scale: ScaleId | 'changes';
+}
+
+// "Bb7" up 2 -> "C7"; keeps the quality and any ":chord-scale" suffix
+export function transposeChordSymbol(symbol: string, semitones: number, preferFlats = true): string {
+  const match = /^([A-G](?:#|b)?)(.*)$/.exec(symbol);
+  if (!match) throw new Error(`Unknown chord "${symbol}"`);
+  const root = midiToNote(pitchClassOf(match[1]) + semitones + 120, preferFlats).replace(/-?\d+$/, '');
+  return root + match[2];
+}
+
+// Moves a genre's progression from the key it's written in to `tonic`,
+// spelled for a minor key when the first chord is minor
+export function transposeProgression(progression: string[], fromKey: string, tonic: number): string[] {
+  const semitones = (tonic - pitchClassOf(fromKey) + 12) % 12;
+  if (semitones === 0) return progression;
+  const preferFlats = keyPrefersFlats(tonic, parseChord(progression[0]).tones.includes(3));
+  return progression.map(symbol => transposeChordSymbol(symbol, semitones, preferFlats));
+}
+
+// Every note of `scale` on `tonic` within a hand's register
+export function voiceScale(tonic: number, scale: ScaleId, { low, high }: PitchRange, preferFlats = keyPrefersFlats(tonic, isMinor(scale))): string[] {
+  return voicePitchSet(tonic, SCALES[scale].intervals, low, high).map(m => midiToNote(m, preferFlats));
+}
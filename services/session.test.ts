@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { migrateSessionFile, parseSessionFile, serializeSessionFile, Session, SessionMigration } from './session';
+
+const session: Session = {
+  name: 'Opener',
+  genre: 'FUNK',
+  key: { tonic: 2, scale: 'changes' },
+  transport: { bpm: 104, swing: 0.2 },
+  tempoMode: 'fixed',
+  leadMode: 'theremin',
+  patch: { rightSynth: { oscillator: { type: 'square', partials: [1, 0.5] }, envelope: { release: 2 } } },
+  reverb: { decay: 2, wet: 0.2 },
+  mappings: [{ hand: 'left', source: 'y', target: 'leftFilter.frequency', min: 200, max: 4000, curve: 'exponential', invert: true, smoothing: 0.5 }],
+  visuals: { mode: 'vortex', density: 1, hueSpeed: 0.2 },
+};
+
+const file = (fields: object) => JSON.stringify({ version: 1, sessions: [{ ...session, ...fields }] });
+
+describe('parseSessionFile', () => {
+  it('reads back what it writes', () => {
+    expect(parseSessionFile(serializeSessionFile([session]))).toEqual([session]);
+  });
+
+  it('rejects files without a version it can read', () => {
+    expect(() => parseSessionFile('[')).toThrow('Session file is not valid JSON');
+    expect(() => parseSessionFile('[]')).toThrow('Session file has no version');
+    expect(() => parseSessionFile('{"version":1.5,"sessions":[]}')).toThrow('Session file has no version');
+    expect(() => parseSessionFile('{"version":"1","sessions":[]}')).toThrow('Session file has no version');
+    expect(() => parseSessionFile('{"version":2,"sessions":[]}')).toThrow('Session file is version 2, newer than this app reads (1)');
+    expect(() => parseSessionFile('{"version":1}')).toThrow('Session file has no sessions');
+  });
+
+  it('names the session and field that is wrong', () => {
+    expect(() => parseSessionFile('{"version":1,"sessions":[null]}')).toThrow('Session 1 is not an object');
+    expect(() => parseSessionFile(file({ name: 3 }))).toThrow('Session 1: invalid "name"');
+    expect(() => parseSessionFile(file({ transport: { bpm: 400, swing: 0 } }))).toThrow('Session "Opener": invalid "transport.bpm"');
+    expect(() => parseSessionFile(file({ key: { tonic: 2, scale: 'lydian-ish' } }))).toThrow('Session "Opener": invalid "key.scale"');
+    expect(() => parseSessionFile(file({ leadMode: 'kazoo' }))).toThrow('Session "Opener": invalid "leadMode"');
+    expect(() => parseSessionFile(file({ mappings: [{}] }))).toThrow('Session "Opener": Mapping 1: invalid "hand"');
+  });
+
+  it('only lets Tone options through to the patched voices', () => {
+    const patched = (patch: object) => () => parseSessionFile(file({ patch }));
+    expect(patched({ drumKick: {} })).toThrow('invalid "patch.drumKick"');
+    expect(patched({ leftSynth: 'square' })).toThrow('invalid "patch.leftSynth"');
+    expect(patched({ leftSynth: { volume: null } })).toThrow('invalid "patch.leftSynth.volume"');
+    expect(patched({ leftSynth: { oscillator: { partials: ['1'] } } })).toThrow('invalid "patch.leftSynth.oscillator.partials"');
+    expect(patched({ leftSynth: { a: { b: { c: { d: { e: 1 } } } } } })).toThrow('invalid "patch.leftSynth.a.b.c.d"');
+    expect(parseSessionFile(file({ patch: { leftSynth: { filterEnvelope: { octaves: 3 } } } }))[0].patch)
+      .toEqual({ leftSynth: { filterEnvelope: { octaves: 3 } } });
+  });
+});
+
+describe('migrateSessionFile', () => {
+  // A made-up history: version 1 named the key `tonality`, version 2 had no visuals
+  const migrations: Record<number, SessionMigration> = {
+    1: ({ tonality, ...data }) => ({ ...data, version: 2, key: tonality }),
+    2: data => ({ ...data, version: 3, visuals: 'default' }),
+  };
+
+  it('upgrades a file one version at a time', () => {
+    expect(migrateSessionFile({ version: 1, tonality: 'D' }, migrations, 3)).toEqual({ version: 3, key: 'D', visuals: 'default' });
+    expect(migrateSessionFile({ version: 2, key: 'E' }, migrations, 3)).toEqual({ version: 3, key: 'E', visuals: 'default' });
+    expect(migrateSessionFile({ version: 3 }, migrations, 3)).toEqual({ version: 3 });
+  });
+
+  it('rejects versions it has no step from, or that are newer', () => {
+    expect(() => migrateSessionFile({ version: 1 }, { 2: migrations[2] }, 3)).toThrow('Unsupported session file version 1');
+    expect(() => migrateSessionFile({ version: 4 }, migrations, 3)).toThrow('Session file is version 4, newer than this app reads (3)');
+  });
+
+  it('stops on a step that does not move the version on', () => {
+    expect(() => migrateSessionFile({ version: 1 }, { 1: data => data }, 2)).toThrow('Upgrading session file from version 1 failed');
+  });
+});
@@ -0,0 +1,182 @@
+import { LeadMode, ReverbSettings, TempoMode, VisualMode, VisualSettings } from '../types';
+import { GenreDefinition, GenreId, RackPatch } from '../genres';
+import { MASTER_REVERB } from './masterBus';
+import { pitchClassOf } from './harmony';
+import { parseMapping, ParameterMapping } from './mappings';
+import { KeySelection, SCALE_IDS } from './scales';
+
+// =================================================================
+// SESSIONS
+// =================================================================
+
+// Everything needed to set up a performance. A setlist is a list of these,
+// prepared in advance and loaded one after another on stage.
+export interface Session {
+  name: string;
+  genre: GenreId;
+  key: KeySelection;
+  transport: { bpm: number; swing: number };
+  tempoMode: TempoMode;
+  leadMode: LeadMode;
+  patch: RackPatch; // Over the genre's own voices
+  reverb: ReverbSettings;
+  mappings: ParameterMapping[];
+  visuals: VisualSettings;
+}
+
+export const DEFAULT_HUE_SPEED = 0.2;
+
+export const defaultVisuals = (genre: GenreDefinition): VisualSettings =>
+  ({ mode: genre.visualMode, density: 1, hueSpeed: DEFAULT_HUE_SPEED });
+
+// A genre as it ships: its key, tempo, voices and mappings
+export function defaultSession(genre: GenreDefinition, name = genre.menu.title): Session {
+  return {
+    name,
+    genre: genre.id,
+    key: { tonic: pitchClassOf(genre.key), scale: 'changes' },
+    transport: { ...genre.transport },
+    tempoMode: 'fixed',
+    leadMode: 'notes',
+    patch: {},
+    reverb: { ...MASTER_REVERB },
+    mappings: genre.mappings,
+    visuals: defaultVisuals(genre),
+  };
+}
+
+// =================================================================
+// FILES (JSON, versioned)
+// =================================================================
+
+export const SESSION_VERSION = 1;
+
+export interface SessionFile {
+  version: typeof SESSION_VERSION;
+  sessions: Session[];
+}
+
+// One step up: takes a file at some version and returns it at the next
+export type SessionMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// Upgrades a file from each older version to the next. When the format
+// changes, bump SESSION_VERSION and add the step from the previous version.
+const MIGRATIONS: Record<number, SessionMigration> = {};
+
+export function serializeSessionFile(sessions: Session[]): string {
+  const file: SessionFile = { version: SESSION_VERSION, sessions };
+  return JSON.stringify(file, null, 2);
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isOneOf = <T>(values: readonly T[], v: unknown): v is T => (values as readonly unknown[]).includes(v);
+const inRange = (v: unknown, min: number, max: number): v is number => isNumber(v) && v >= min && v <= max;
+
+const versionOf = (data: Record<string, unknown>) =>
+  Number.isInteger(data.version) && inRange(data.version, 1, Infinity) ? data.version : null;
+
+// Brings a parsed file up to `current` one step at a time. The table and
+// target are parameters so the upgrade path can be tested ahead of a real step.
+export function migrateSessionFile(data: unknown, migrations = MIGRATIONS, current = SESSION_VERSION): Record<string, unknown> {
+  let file = isObject(data) ? data : {};
+  let version = versionOf(file);
+  if (version === null) throw new Error("Session file has no version");
+  if (version > current) {
+    throw new Error(`Session file is version ${version}, newer than this app reads (${current})`);
+  }
+  while (version < current) {
+    const step = migrations[version];
+    if (!step) throw new Error(`Unsupported session file version ${version}`);
+    const from: number = version;
+    file = step(file);
+    version = versionOf(file);
+    if (version === null || version <= from) throw new Error(`Upgrading session file from version ${from} failed`);
+  }
+  return file;
+}
+
+const VISUAL_MODES: VisualMode[] = ['liquid', 'vortex', 'neural'];
+const LEAD_MODES: LeadMode[] = ['notes', 'theremin', 'thereminSnap'];
+const TEMPO_MODES: TempoMode[] = ['fixed', 'conduct'];
+const PATCH_VOICES: (keyof RackPatch)[] = ['rightSynth', 'leftSynth', 'bassSynth'];
+
+// Deep enough for any Tone option, e.g. { filterEnvelope: { attackCurve: ... } }
+const MAX_PATCH_DEPTH = 4;
+
+// Patches go straight to a synth's set(), so only what Tone options hold is let
+// through: numbers, strings, booleans, number lists (partials) and nested
+// options. Returns the path of the first value that isn't one of those.
+function invalidPatchOption(value: unknown, path: string, depth = 0): string | null {
+  if (isNumber(value) || typeof value === 'string' || typeof value === 'boolean') return null;
+  if (Array.isArray(value)) return value.every(isNumber) ? null : path;
+  if (!isObject(value) || depth >= MAX_PATCH_DEPTH) return path;
+  for (const [key, option] of Object.entries(value)) {
+    const invalid = invalidPatchOption(option, `${path}.${key}`, depth + 1);
+    if (invalid) return invalid;
+  }
+  return null;
+}
+
+function parseSession(raw: unknown, index: number): Session {
+  if (!isObject(raw)) throw new Error(`Session ${index + 1} is not an object`);
+  const { name, genre, key, transport, tempoMode, leadMode, patch, reverb, visuals } = raw;
+  const label = typeof name === 'string' && name ? `"${name}"` : `${index + 1}`;
+  const fail = (field: string): never => { throw new Error(`Session ${label}: invalid "${field}"`); };
+
+  if (typeof name !== 'string') return fail('name');
+  if (typeof genre !== 'string' || genre === '') return fail('genre');
+  if (!isObject(key) || !Number.isInteger(key.tonic) || !inRange(key.tonic, 0, 11)) return fail('key.tonic');
+  if (key.scale !== 'changes' && !isOneOf(SCALE_IDS, key.scale)) return fail('key.scale');
+  if (!isObject(transport) || !inRange(transport.bpm, 20, 300)) return fail('transport.bpm');
+  if (!inRange(transport.swing, 0, 1)) return fail('transport.swing');
+  if (!isOneOf(TEMPO_MODES, tempoMode)) return fail('tempoMode');
+  if (!isOneOf(LEAD_MODES, leadMode)) return fail('leadMode');
+  if (!isObject(patch)) return fail('patch');
+  const voices: RackPatch = {};
+  for (const [voice, options] of Object.entries(patch)) {
+    if (!isOneOf(PATCH_VOICES, voice) || !isObject(options)) return fail(`patch.${voice}`);
+    const invalid = invalidPatchOption(options, `patch.${voice}`);
+    if (invalid) return fail(invalid);
+    voices[voice] = options;
+  }
+  if (!isObject(reverb) || !inRange(reverb.decay, 0.001, 30)) return fail('reverb.decay');
+  if (!inRange(reverb.wet, 0, 1)) return fail('reverb.wet');
+  if (!Array.isArray(raw.mappings)) return fail('mappings');
+  if (!isObject(visuals) || !isOneOf(VISUAL_MODES, visuals.mode)) return fail('visuals.mode');
+  if (!inRange(visuals.density, 0.1, 4)) return fail('visuals.density');
+  if (!inRange(visuals.hueSpeed, -10, 10)) return fail('visuals.hueSpeed');
+
+  let mappings: ParameterMapping[] = [];
+  try {
+    mappings = raw.mappings.map(parseMapping);
+  } catch (e) {
+    throw new Error(`Session ${label}: ${(e as Error).message}`);
+  }
+  return {
+    name,
+    genre,
+    key: { tonic: key.tonic, scale: key.scale },
+    transport: { bpm: transport.bpm, swing: transport.swing },
+    tempoMode,
+    leadMode,
+    patch: voices,
+    reverb: { decay: reverb.decay, wet: reverb.wet },
+    mappings,
+    visuals: { mode: visuals.mode, density: visuals.density, hueSpeed: visuals.hueSpeed },
+  };
+}
+
+// Reads a session file from any version this app knows, upgrading it to the
+// current one. Throws with a readable message if it isn't valid.
+export function parseSessionFile(json: string): Session[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Session file is not valid JSON");
+  }
+  const { sessions } = migrateSessionFile(data);
+  if (!Array.isArray(sessions)) throw new Error("Session file has no sessions");
+  return sessions.map(parseSession);
+}
@@ -0,0 +1,23 @@
+import { parseSessionFile, serializeSessionFile, Session } from './session';
+
+// The setlist, saved in the browser in the same format as exported files (so
+// older saves are migrated the same way)
+const STORAGE_KEY = 'hands-of-rhythm:setlist';
+
+export function loadSetlist(): Session[] {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    return json ? parseSessionFile(json) : [];
+  } catch (e) {
+    console.warn("Ignoring saved setlist", e);
+    return [];
+  }
+}
+
+export function saveSetlist(sessions: Session[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeSessionFile(sessions));
+  } catch (e) {
+    console.warn("Could not save setlist", e);
+  }
+}
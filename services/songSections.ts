@@ -0,0 +1,28 @@
+import { SongSection } from '../types';
+
+// What the drummer does in a section:
+// - 'intro': start over from the genre's drum intro
+// - 'play': loop `groove`
+// - 'mute': drop out (the sequencer keeps counting so it re-enters on the phrase)
+// - 'fills': a fill every bar
+// - 'ending': the genre's ending, then silence
+export type SectionDrums = 'intro' | 'play' | 'mute' | 'fills' | 'ending';
+
+export interface SectionSettings {
+  label: string;
+  next: SongSection; // Where the "next section" gesture (or auto-advance) goes
+  bars?: number; // Auto-advance to `next` after this many bars
+  drums: SectionDrums;
+  groove?: number; // Index into the genre's grooves (wraps)
+  bass: boolean;
+  intensity: number; // Visual energy multiplier for the canvas
+}
+
+export const SONG_SECTIONS: Record<SongSection, SectionSettings> = {
+  intro:     { label: 'INTRO',     next: 'verse',     bars: 4, drums: 'intro', bass: false, intensity: 0.6 },
+  verse:     { label: 'VERSE',     next: 'solo',      drums: 'play', groove: 0, bass: true, intensity: 1.0 },
+  solo:      { label: 'SOLO',      next: 'breakdown', drums: 'play', groove: 1, bass: true, intensity: 1.3 },
+  breakdown: { label: 'BREAKDOWN', next: 'build',     drums: 'mute', bass: true, intensity: 0.4 },
+  build:     { label: 'BUILD',     next: 'solo',      bars: 2, drums: 'fills', bass: true, intensity: 1.6 },
+  outro:     { label: 'OUTRO',     next: 'intro',     drums: 'ending', bass: true, intensity: 0.5 },
+};
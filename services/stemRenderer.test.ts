@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_MIX } from './mixer';
+import { NoteEvent, NoteTake } from './noteRecording';
+import { renderStem } from './stemRenderer';
+
+// Tone needs Web Audio, which Node lacks; web-audio-engine renders in plain JS.
+// Tone looks for it on import, so it's installed before any import runs.
+await vi.hoisted(async () => {
+  const { OfflineAudioContext } = await import('web-audio-engine');
+  Object.assign(globalThis, { window: globalThis, OfflineAudioContext });
+});
+
+const note = (role: NoteEvent['role'], pitch: number, time: number, voice?: NoteEvent['voice']): NoteEvent =>
+  ({ role, pitch, voice, tick: Math.round(time * 384), durationTicks: 96, time, duration: 0.25, velocity: 0.8 });
+
+// No cymbals: web-audio-engine can't render Tone's MetalSynth
+const take: NoteTake = {
+  genre: 'FUNK',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ppq: 192,
+  notes: [
+    note('DRUMS', 36, 0, 'kick'),
+    note('DRUMS', 38, 0.25, 'snare'), // Noise: only repeatable when seeded
+    note('BASS', 40, 0),
+    note('LEAD', 67, 0.125),
+    note('RHYTHM', 60, 0.375),
+  ],
+  controls: [{ role: 'LEAD', time: 0.2, x: 0.8, y: 0.3, z: 0.5, squeeze: 0.4, pinch: 0, speed: 0 }],
+  mappings: [],
+  patch: {},
+  reverb: { decay: 0.5, wet: 0.2 },
+  mix: DEFAULT_MIX,
+  tempo: [{ tick: 0, bpm: 120, swing: 0 }],
+};
+
+const OPTIONS = { sampleRate: 8000, tail: 0.5, seed: 7 };
+
+const samples = (buffer: AudioBuffer) =>
+  Array.from({ length: buffer.numberOfChannels }, (_, ch) => Array.from(buffer.getChannelData(ch)));
+
+describe('renderStem', () => {
+  it('renders the same take to identical audio', async () => {
+    const first = await renderStem(take, 'mix', OPTIONS);
+    const second = await renderStem(take, 'mix', OPTIONS);
+    expect(first.length).toBe(Math.ceil((0.625 + OPTIONS.tail) * OPTIONS.sampleRate));
+    expect(samples(first).flat().every(Number.isFinite)).toBe(true);
+    expect(Math.max(...samples(first).flat().map(Math.abs))).toBeGreaterThan(0);
+    expect(samples(second)).toEqual(samples(first));
+  }, 60000);
+
+  it('draws its noise from the seed', async () => {
+    const seeded = await renderStem(take, 'drums', OPTIONS);
+    const again = await renderStem(take, 'drums', OPTIONS);
+    const reseeded = await renderStem(take, 'drums', { ...OPTIONS, seed: 8 });
+    expect(samples(again)).toEqual(samples(seeded));
+    expect(samples(reseeded)).not.toEqual(samples(seeded));
+  }, 60000);
+
+  // (web-audio-engine's stereo panner ignores its pan, so only the filter is heard here)
+  it('shapes hand notes as they were played', async () => {
+    const struck = (filterAmount?: number): NoteTake =>
+      ({ ...take, notes: [{ ...note('LEAD', 67, 0), pan: filterAmount === undefined ? undefined : 0, filterAmount }], controls: [] });
+    const plain = samples(await renderStem(struck(), 'lead', OPTIONS));
+    expect(samples(await renderStem(struck(0.5), 'lead', OPTIONS))).toEqual(plain); // The genre's own envelope
+    expect(samples(await renderStem(struck(1), 'lead', OPTIONS))).not.toEqual(plain);
+  }, 60000);
+
+  it('keeps each hand note to its own filter depth', async () => {
+    const played = (second: number): NoteTake => ({
+      ...take,
+      notes: [{ ...note('LEAD', 67, 0), pan: 0, filterAmount: 0 }, { ...note('LEAD', 67, 0.25), pan: 0, filterAmount: second }],
+      controls: [],
+    });
+    const [soft] = samples(await renderStem(played(0), 'lead', OPTIONS));
+    const [struck] = samples(await renderStem(played(1), 'lead', OPTIONS));
+    const onset = 0.25 * OPTIONS.sampleRate;
+    expect(struck.slice(0, onset)).toEqual(soft.slice(0, onset)); // Not shaped by the note after it
+    expect(struck.slice(onset)).not.toEqual(soft.slice(onset));
+  }, 60000);
+
+  it('plays theremin glides along their path', async () => {
+    const glide = (pitch: number, time: number) => ({ time, tick: Math.round(time * 384), pitch, x: 0.5, squeeze: 0.5 });
+    const theremin: NoteTake = {
+      ...take,
+      notes: [{ ...note('LEAD', 60, 0), duration: 0.5, glide: [glide(60, 0), glide(64.5, 0.25)] }],
+      controls: [],
+    };
+    const glided = samples(await renderStem(theremin, 'lead', OPTIONS))[0];
+    const held = samples(await renderStem({ ...theremin, notes: [{ ...theremin.notes[0], glide: [glide(60, 0)] }] }, 'lead', OPTIONS))[0];
+    expect(glided.every(Number.isFinite)).toBe(true);
+    expect(Math.max(...glided.map(Math.abs))).toBeGreaterThan(0);
+    expect(glided.slice(0, 0.25 * OPTIONS.sampleRate)).toEqual(held.slice(0, 0.25 * OPTIONS.sampleRate));
+    expect(glided).not.toEqual(held);
+  }, 60000);
+
+  it('leaves Math.random alone while the render runs', async () => {
+    const random = Math.random;
+    const rendering = renderStem(take, 'lead', OPTIONS);
+    expect(Math.random).toBe(random);
+    await rendering;
+    expect(Math.random).toBe(random);
+  }, 60000);
+});
@@ -0,0 +1,136 @@
+import * as Tone from 'tone';
+import { applyDynamics, getGenre, InstrumentRack, patchRack, rackTargets, triggerDrum, triggerNote } from '../genres';
+import { midiToNote } from './harmony';
+import { ParameterMapper } from './mappings';
+import { MASTER_LIMITER_DB } from './masterBus';
+import { MidiRole } from './midiOutput';
+import { Mixer, MIXER_CHANNELS, MixSettings } from './mixer';
+import { NoteTake } from './noteRecording';
+import { createRandom } from './random';
+import { ThereminVoice } from './theremin';
+import { seedNoiseBuffers, withRandom } from './toneRandom';
+import { encodeWav, WavFormat } from './wavFile';
+
+export type StemId = 'lead' | 'rhythm' | 'bass' | 'drums' | 'reverb' | 'mix';
+
+export const STEM_IDS: StemId[] = ['lead', 'rhythm', 'bass', 'drums', 'reverb', 'mix'];
+
+// Which notes each stem plays, and how its reverb is heard:
+// - 'dry': the role alone with the reverb return unplugged
+// - 'return': every role, reverb return only (no direct signal)
+// - 'mix': every role through the master bus, as heard live
+const STEMS: Record<StemId, { roles: MidiRole[]; reverb: 'dry' | 'return' | 'mix' }> = {
+  lead: { roles: ['LEAD'], reverb: 'dry' },
+  rhythm: { roles: ['RHYTHM'], reverb: 'dry' },
+  bass: { roles: ['BASS'], reverb: 'dry' },
+  drums: { roles: ['DRUMS'], reverb: 'dry' },
+  reverb: { roles: ['LEAD', 'RHYTHM', 'BASS', 'DRUMS'], reverb: 'return' },
+  mix: { roles: ['LEAD', 'RHYTHM', 'BASS', 'DRUMS'], reverb: 'mix' },
+};
+
+export interface StemRenderOptions {
+  sampleRate: number;
+  tail: number; // Seconds rendered after the last event, for releases and reverb
+  seed: number; // Seeds the noise in the reverb impulse and noise synths
+}
+
+const DEFAULT_OPTIONS: StemRenderOptions = { sampleRate: 44100, tail: 3, seed: 1 };
+
+const takeDuration = (take: NoteTake) => Math.max(
+  0,
+  ...take.notes.map(n => n.time + n.duration),
+  ...take.controls.map(c => c.time),
+);
+
+function scheduleTake(take: NoteTake, rack: InstrumentRack, mixer: Mixer, roles: MidiRole[], transport: Tone.OfflineContext["transport"]) {
+  let theremin: ThereminVoice | null = null;
+  for (const note of take.notes) {
+    if (!roles.includes(note.role)) continue;
+    if (note.glide) {
+      // Theremin notes glide along their path on a theremin voice, as played
+      theremin ??= new ThereminVoice(mixer.inputs.lead);
+      for (const point of note.glide) theremin.play(point);
+      theremin.release(note.time + note.duration);
+    } else if (note.role === 'DRUMS') {
+      if (note.voice) triggerDrum(rack, note.voice, note.time, note.velocity);
+    } else {
+      // Hand notes are panned and shaped as they were played
+      if (note.role !== 'BASS' && note.pan !== undefined && note.filterAmount !== undefined) {
+        applyDynamics(rack, note.role, { pan: note.pan, filterAmount: note.filterAmount }, note.time);
+      }
+      triggerNote(rack, note.role, midiToNote(note.pitch), note.duration, note.time, note.velocity);
+    }
+  }
+  // Mappings shape the hands' sound (filters, detune), so replay them on the Transport timeline
+  const mapper = new ParameterMapper(take.mappings);
+  const targets = new Map(rackTargets(rack).map(target => [target.id, target]));
+  for (const { role, time, ...controls } of take.controls) {
+    if (!roles.includes(role)) continue;
+    transport.schedule(() => {
+      for (const { target, value } of mapper.update(role === 'LEAD' ? 'right' : 'left', controls)) {
+        try { targets.get(target)?.set(value); } catch (e) {}
+      }
+    }, time);
+  }
+}
+
+// Re-render one stem of a take offline, with a fresh copy of the genre's instruments
+export async function renderStem(take: NoteTake, id: StemId, options: Partial<StemRenderOptions> = {}): Promise<AudioBuffer> {
+  const { sampleRate, tail, seed } = { ...DEFAULT_OPTIONS, ...options };
+  const genre = getGenre(take.genre);
+  const stem = STEMS[id];
+
+  // Building the graph and scheduling the notes draw Tone's noise; both run on
+  // the seeded stream, either side of the wait for the reverb impulse
+  const random = createRandom(seed);
+  const rendered = await Tone.Offline(async ({ transport }) => {
+    seedNoiseBuffers();
+    const { reverb, mixer } = withRandom(random, () => {
+      const limiter = new Tone.Limiter(MASTER_LIMITER_DB).toDestination();
+      const reverb = new Tone.Reverb({ decay: take.reverb.decay, wet: 1 });
+      const reverbReturn = new Tone.Gain(take.reverb.wet);
+      reverb.connect(reverbReturn);
+      if (stem.reverb === 'return') reverbReturn.toDestination();
+      if (stem.reverb === 'mix') reverbReturn.connect(limiter);
+
+      // Levels, pans and sends as heard, but every channel open: stems are for
+      // remixing, so one muted live still renders
+      const mix = Object.fromEntries(MIXER_CHANNELS.map(ch => [ch, { ...take.mix[ch], mute: false, solo: false }])) as MixSettings;
+      const mixer = new Mixer(reverb, stem.reverb === 'return' ? new Tone.Gain() : limiter, mix); // Direct outputs go nowhere in the return stem
+      return { reverb, mixer };
+    });
+    await reverb.ready;
+
+    withRandom(random, () => {
+      const rack = genre.createInstruments({ channels: mixer.inputs });
+      patchRack(rack, take.patch);
+      scheduleTake(take, rack, mixer, stem.roles, transport);
+      transport.start(0);
+    });
+  }, takeDuration(take) + tail, 2, sampleRate);
+
+  const buffer = rendered.get();
+  if (!buffer) throw new Error(`Stem "${id}" rendered no audio`);
+  return buffer;
+}
+
+// Every stem plus the mix, one after another (each render is heavy)
+export async function renderStems(
+  take: NoteTake,
+  options: Partial<StemRenderOptions> = {},
+  onProgress?: (id: StemId, index: number) => void
+): Promise<Record<StemId, AudioBuffer>> {
+  const stems = {} as Record<StemId, AudioBuffer>;
+  for (const [index, id] of STEM_IDS.entries()) {
+    onProgress?.(id, index);
+    stems[id] = await renderStem(take, id, options);
+  }
+  return stems;
+}
+
+export const audioBufferToWav = (buffer: AudioBuffer, format: WavFormat = 'pcm24'): Uint8Array =>
+  encodeWav(
+    Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch)),
+    buffer.sampleRate,
+    format
+  );
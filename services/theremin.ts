@@ -0,0 +1,120 @@
+import * as Tone from 'tone';
+import { PitchRange } from './harmony';
+
+export interface ThereminOptions {
+  glide: number; // Portamento, seconds
+  snap: number; // 0 = free pitch, 1 = locked to the nearest scale tone
+  maxVibrato: number; // Vibrato depth (0-1) with the hand at the far right
+  quietDb: number; // Volume with the hand open; a fist is full volume
+}
+
+export const DEFAULT_THEREMIN_OPTIONS: ThereminOptions = { glide: 0.08, snap: 0, maxVibrato: 0.5, quietDb: -24 };
+
+// Smallest change (semitones, or 0-1 for x and squeeze) kept in a note's path
+const PATH_STEP = 0.01;
+
+// Fractional MIDI pitch for a hand height (0 = top = `high`). With `snap`,
+// the pitch is pulled part of the way toward the nearest of `scale` (MIDI).
+export function thereminPitch(y: number, { low, high }: PitchRange, scale: number[] = [], snap = 0): number {
+  const pitch = high - Math.max(0, Math.min(1, y)) * (high - low);
+  if (snap <= 0 || scale.length === 0) return pitch;
+  const nearest = scale.reduce((best, note) => Math.abs(note - pitch) < Math.abs(best - pitch) ? note : best);
+  return pitch + (nearest - pitch) * Math.min(1, snap);
+}
+
+export interface ThereminFrame {
+  y: number;
+  x: number;
+  squeeze: number;
+  gate: boolean; // Hand present (and pinching, in pinch mode)
+}
+
+// Where the theremin was at `time`: exact pitch (fractional MIDI), vibrato and volume
+export interface ThereminPoint {
+  time: number;
+  pitch: number;
+  x: number;
+  squeeze: number;
+}
+
+// A note played on the theremin, reported when it ends
+export interface ThereminNote {
+  pitch: number; // MIDI note it started on (rounded)
+  time: number;
+  duration: number;
+  velocity: number;
+  path: ThereminPoint[]; // From the start, only where something moved
+}
+
+const moved = (a: ThereminPoint, b: ThereminPoint) =>
+  Math.abs(a.pitch - b.pitch) >= PATH_STEP || Math.abs(a.x - b.x) >= PATH_STEP || Math.abs(a.squeeze - b.squeeze) >= PATH_STEP;
+
+// A monophonic voice played continuously by one hand: height is pitch,
+// x is vibrato depth and squeeze is volume. The gate opening and closing
+// are the note-on and note-off; between them the pitch glides.
+export class ThereminVoice {
+  private synth: Tone.MonoSynth;
+  private vibrato: Tone.Vibrato;
+  private volume: Tone.Volume;
+  private options: ThereminOptions;
+  private current: Omit<ThereminNote, 'duration'> | null = null;
+
+  constructor(destination: Tone.InputNode, options: Partial<ThereminOptions> = {}) {
+    this.options = { ...DEFAULT_THEREMIN_OPTIONS, ...options };
+    this.synth = new Tone.MonoSynth({
+      portamento: this.options.glide,
+      oscillator: { type: "sine" },
+      envelope: { attack: 0.08, decay: 0.1, sustain: 1.0, release: 0.4 },
+      filter: { type: "lowpass", rolloff: -12, Q: 0.5 },
+      filterEnvelope: { attack: 0.01, decay: 0.1, sustain: 1, release: 0.4, baseFrequency: 2400, octaves: 0 },
+    });
+    this.vibrato = new Tone.Vibrato({ frequency: 5.5, depth: 0 });
+    this.volume = new Tone.Volume(this.options.quietDb);
+    this.synth.chain(this.vibrato, this.volume, destination);
+  }
+
+  public get playing(): boolean { return this.current !== null; }
+  // The note sounding now, its path so far included
+  public get sounding(): Readonly<Omit<ThereminNote, 'duration'>> | null { return this.current; }
+
+  public setSnap(snap: number) { this.options.snap = snap; }
+
+  // Called every hand frame. Returns the note that just ended, if any.
+  public update({ y, x, squeeze, gate }: ThereminFrame, range: PitchRange, scale: number[], time = Tone.now()): ThereminNote | null {
+    if (!gate) return this.release(time);
+    this.play({ time, pitch: thereminPitch(y, range, scale, this.options.snap), x, squeeze });
+    return null;
+  }
+
+  // Sounds a point, starting a note if none is playing. Re-rendering replays
+  // a logged path through here.
+  public play(point: ThereminPoint) {
+    const { time, pitch, x, squeeze } = point;
+    const frequency = Tone.Frequency(pitch, "midi").toFrequency();
+    this.vibrato.depth.rampTo(Math.max(0, Math.min(1, x)) * this.options.maxVibrato, 0.05, time);
+    this.volume.volume.rampTo(this.options.quietDb * (1 - squeeze), 0.05, time);
+
+    if (!this.current) {
+      this.synth.triggerAttack(frequency, time);
+      this.current = { pitch: Math.round(pitch), time, velocity: 0.5 + squeeze * 0.5, path: [point] };
+    } else {
+      this.synth.setNote(frequency, time);
+      const path = this.current.path;
+      if (moved(path[path.length - 1], point)) path.push(point);
+    }
+  }
+
+  public release(time = Tone.now()): ThereminNote | null {
+    const current = this.current;
+    if (!current) return null;
+    this.synth.triggerRelease(time);
+    this.current = null;
+    return { ...current, duration: Math.max(0, time - current.time) };
+  }
+
+  public dispose() {
+    this.synth.dispose();
+    this.vibrato.dispose();
+    this.volume.dispose();
+  }
+}
@@ -0,0 +1,30 @@
+import * as Tone from 'tone';
+import { createRandom } from './random';
+
+// Tone draws its noise (noise buffers, reverb impulses, noise synth starts)
+// from Math.random. These run Tone code on a seeded stream instead, so
+// renders can be repeated exactly.
+
+const NOISE_TYPES: Tone.NoiseType[] = ['white', 'pink', 'brown'];
+const NOISE_SEED = 1;
+
+// Runs `build` with Math.random replaced by `random`. Synchronous only, so
+// nothing else (like the live engine) draws from the stream meanwhile.
+export function withRandom<T>(random: () => number, build: () => T): T {
+  const original = Math.random;
+  Math.random = random;
+  try {
+    return build();
+  } finally {
+    Math.random = original;
+  }
+}
+
+// Tone fills each noise buffer the first time that noise plays, then shares
+// it app-wide. Call before anything makes noise so the buffers always come
+// from the same seed, whatever plays first; later calls change nothing.
+export function seedNoiseBuffers() {
+  withRandom(createRandom(NOISE_SEED), () => {
+    for (const type of NOISE_TYPES) new Tone.Noise({ type }).start(0).dispose();
+  });
+}
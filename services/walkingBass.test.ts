@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { ChordInfo } from '../types';
+import { parseChord, PitchRange } from './harmony';
+import { WalkingBassGenerator } from './walkingBass';
+
+// The JAZZ blues and its walking range (F1-Eb3)
+const PROGRESSION = ['Cm7', 'Fm7', 'Cm7', 'Cm7', 'Fm7', 'Fm7', 'Cm7', 'Cm7', 'Dm7b5', 'G7alt', 'Cm7', 'G7alt'].map(parseChord);
+const RANGE: PitchRange = { low: 29, high: 51 };
+
+const pitchClass = (midi: number) => ((midi % 12) + 12) % 12;
+
+// `choruses` times round the progression, as bars of [chord, line]
+function walk(seed: number, choruses = 4, maxLeap?: number): [ChordInfo, number[]][] {
+  const bass = new WalkingBassGenerator({ range: RANGE, seed, maxLeap });
+  return Array.from({ length: PROGRESSION.length * choruses }, (_, bar) => {
+    const chord = PROGRESSION[bar % PROGRESSION.length];
+    return [chord, bass.nextBar(chord, PROGRESSION[(bar + 1) % PROGRESSION.length])];
+  });
+}
+
+const SEEDS = [1, 2, 3, 42, 1234];
+
+describe('WalkingBassGenerator', () => {
+  it('walks the same line for the same seed', () => {
+    expect(walk(7)).toEqual(walk(7));
+    expect(walk(7)).not.toEqual(walk(8));
+  });
+
+  it('starts again from the middle of the range after a reset', () => {
+    const bass = new WalkingBassGenerator({ range: RANGE, seed: 3 });
+    const first = bass.nextBar(PROGRESSION[0], PROGRESSION[1]);
+    bass.nextBar(PROGRESSION[1], PROGRESSION[2]);
+    bass.reset();
+    expect(bass.nextBar(PROGRESSION[0], PROGRESSION[1])[0]).toBe(first[0]);
+  });
+
+  it('puts the root on beat 1 and a chord tone on beat 3', () => {
+    for (const seed of SEEDS) {
+      for (const [chord, [beat1, , beat3]] of walk(seed)) {
+        expect(pitchClass(beat1)).toBe(chord.root);
+        expect(chord.tones.map(pitchClass)).toContain(pitchClass(beat3 - chord.root));
+      }
+    }
+  });
+
+  it('stays in range without leaping', () => {
+    for (const maxLeap of [5, 7]) {
+      for (const seed of SEEDS) {
+        const line = walk(seed, 4, maxLeap).flatMap(([, notes]) => notes);
+        for (const note of line) {
+          expect(note).toBeGreaterThanOrEqual(RANGE.low);
+          expect(note).toBeLessThanOrEqual(RANGE.high);
+        }
+        line.slice(1).forEach((note, i) => expect(Math.abs(note - line[i])).toBeLessThanOrEqual(maxLeap));
+      }
+    }
+  });
+
+  it('approaches the next root chromatically or by a scale step', () => {
+    for (const seed of SEEDS) {
+      const bars = walk(seed);
+      bars.slice(1).forEach(([next, [root]], i) => {
+        const approach = bars[i][1][3];
+        const step = Math.abs(root - approach);
+        const scale = next.scale.map(interval => (next.root + interval) % 12);
+        expect(step === 1 || (step === 2 && scale.includes(pitchClass(approach)))).toBe(true);
+      });
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { ChordInfo } from '../types';
+import { PitchRange } from './harmony';
+import { createRandom, pickRandom } from './random';
+
+export interface WalkingBassOptions {
+  range: PitchRange; // MIDI notes the line must stay within
+  maxLeap?: number; // Largest interval between consecutive notes, in semitones
+  seed?: number;
+}
+
+const pitchClass = (midi: number) => ((midi % 12) + 12) % 12;
+
+// Generates a four-to-the-bar walking line, one bar at a time:
+// - beat 1: the chord root
+// - beat 3: another chord tone, heading toward the next chord
+// - beat 2: a scalar (or chromatic) passing tone between beats 1 and 3
+// - beat 4: an approach note into the next bar's root (chromatic or a
+//   scale step, from above or below)
+// Given the same seed and chords, the output is always identical.
+export class WalkingBassGenerator {
+  private random: () => number;
+  private range: PitchRange;
+  private maxLeap: number;
+  private lastNote: number | null = null;
+
+  constructor({ range, maxLeap = 7, seed = 1 }: WalkingBassOptions) {
+    this.range = range;
+    this.maxLeap = maxLeap;
+    this.random = createRandom(seed);
+  }
+
+  public reset() {
+    this.lastNote = null;
+  }
+
+  // Four MIDI notes for a bar of `chord`, leading into `nextChord`
+  public nextBar(chord: ChordInfo, nextChord: ChordInfo): number[] {
+    const reference = this.lastNote ?? (this.range.low + this.range.high) / 2;
+
+    const beat1 = this.nearest(chord.root, reference);
+    const nextRoot = this.nearest(nextChord.root, beat1);
+    const beat3 = this.chooseBeat3(chord, beat1, nextRoot);
+    const beat2 = this.choosePassingTone(chord, beat1, beat3);
+    const target = this.nearest(nextChord.root, beat3);
+    const beat4 = this.chooseApproach(nextChord, beat3, target);
+
+    this.lastNote = beat4;
+    return [beat1, beat2, beat3, beat4];
+  }
+
+  // Note with the given pitch class inside the range, closest to `reference`
+  private nearest(pc: number, reference: number): number {
+    let best = this.range.low;
+    let bestDist = Infinity;
+    for (let midi = this.range.low; midi <= this.range.high; midi++) {
+      if (pitchClass(midi) !== pc) continue;
+      const dist = Math.abs(midi - reference);
+      if (dist < bestDist) { best = midi; bestDist = dist; }
+    }
+    return best;
+  }
+
+  private inRange(midi: number) {
+    return midi >= this.range.low && midi <= this.range.high;
+  }
+
+  private withinLeap(from: number, to: number) {
+    return Math.abs(to - from) <= this.maxLeap;
+  }
+
+  private chooseBeat3(chord: ChordInfo, beat1: number, nextRoot: number): number {
+    const direction = Math.sign(nextRoot - beat1) || (this.random() < 0.5 ? 1 : -1);
+    const candidates: number[] = [];
+    for (const interval of chord.tones) {
+      if (interval % 12 === 0) continue;
+      for (const octave of [-12, 0, 12]) {
+        const midi = beat1 + (interval % 12) + octave;
+        if (midi !== beat1 && this.inRange(midi) && this.withinLeap(beat1, midi)) candidates.push(midi);
+      }
+    }
+    if (candidates.length === 0) return beat1;
+    // Prefer tones that move the line toward the next chord
+    const heading = candidates.filter(m => Math.sign(m - beat1) === direction);
+    return pickRandom(heading.length > 0 ? heading : candidates, this.random);
+  }
+
+  private choosePassingTone(chord: ChordInfo, from: number, to: number): number {
+    const scaleClasses = new Set(chord.scale.map(i => (chord.root + i) % 12));
+    const lo = Math.min(from, to);
+    const hi = Math.max(from, to);
+
+    // Scale tones strictly between the two chord tones
+    const between: number[] = [];
+    for (let midi = lo + 1; midi < hi; midi++) {
+      if (scaleClasses.has(pitchClass(midi))) between.push(midi);
+    }
+    if (between.length > 0) return pickRandom(between, this.random);
+
+    // Adjacent tones: step away and back (scalar neighbour) or a chromatic one
+    const direction = to >= from ? 1 : -1;
+    const neighbours = [from + direction * 2, from + direction, from - direction * 2, from - direction]
+      .filter(m => m !== to && this.inRange(m) && this.withinLeap(m, to));
+    const scalar = neighbours.filter(m => scaleClasses.has(pitchClass(m)));
+    if (scalar.length > 0) return pickRandom(scalar, this.random);
+    return neighbours[0] ?? from;
+  }
+
+  private chooseApproach(nextChord: ChordInfo, from: number, target: number): number {
+    const scaleClasses = new Set(nextChord.scale.map(i => (nextChord.root + i) % 12));
+    const scalarBelow = [target - 1, target - 2].find(m => scaleClasses.has(pitchClass(m)));
+    const scalarAbove = [target + 1, target + 2].find(m => scaleClasses.has(pitchClass(m)));
+
+    const options = [
+      target - 1, // Chromatic from below
+      target + 1, // Chromatic from above
+      scalarBelow,
+      scalarAbove,
+    ].filter((m): m is number =>
+      m !== undefined && m !== target && m !== from && this.inRange(m) && this.withinLeap(from, m)
+    );
+
+    if (options.length > 0) return pickRandom(options, this.random);
+    // Nothing within a leap: the chromatic neighbour nearest the line
+    const chromatic = [target - 1, target + 1].filter(m => this.inRange(m));
+    return chromatic.reduce((a, b) => (Math.abs(b - from) < Math.abs(a - from) ? b : a), chromatic[0] ?? target);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './wavFile';
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+const uint32 = (v: number) => [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff];
+const uint16 = (v: number) => [v & 0xff, (v >> 8) & 0xff];
+
+const header = (tag: number, channels: number, sampleRate: number, bytes: number, dataSize: number) => [
+  ...ascii('RIFF'), ...uint32(36 + dataSize), ...ascii('WAVE'),
+  ...ascii('fmt '), ...uint32(16), ...uint16(tag), ...uint16(channels),
+  ...uint32(sampleRate), ...uint32(sampleRate * channels * bytes), ...uint16(channels * bytes), ...uint16(bytes * 8),
+  ...ascii('data'), ...uint32(dataSize),
+];
+
+describe('encodeWav', () => {
+  it('writes interleaved 16-bit PCM', () => {
+    const wav = encodeWav([new Float32Array([0, 1]), new Float32Array([-1, 0.5])], 8000, 'pcm16');
+    expect(Array.from(wav)).toEqual([
+      ...header(1, 2, 8000, 2, 8),
+      0x00, 0x00, 0x00, 0x80, // 0, -1
+      0xff, 0x7f, 0x00, 0x40, // 1, 0.5
+    ]);
+  });
+
+  it('writes 24-bit PCM, clipping out-of-range samples', () => {
+    const wav = encodeWav([new Float32Array([-1, 0.25, 2])], 44100, 'pcm24');
+    expect(Array.from(wav)).toEqual([
+      ...header(1, 1, 44100, 3, 9),
+      0x00, 0x00, 0x80,
+      0x00, 0x00, 0x20,
+      0xff, 0xff, 0x7f,
+    ]);
+  });
+
+  it('writes 32-bit float with the IEEE format tag', () => {
+    const wav = encodeWav([new Float32Array([0.5, -2])], 48000, 'float32');
+    expect(Array.from(wav)).toEqual([
+      ...header(3, 1, 48000, 4, 8),
+      0x00, 0x00, 0x00, 0x3f, // 0.5
+      0x00, 0x00, 0x80, 0xbf, // -1
+    ]);
+  });
+
+  it('writes just the header when there is no audio', () => {
+    expect(Array.from(encodeWav([], 44100))).toEqual(header(1, 0, 44100, 3, 0));
+  });
+});
@@ -0,0 +1,57 @@
+// WAV (RIFF) encoder for rendered audio. Pure: takes channel data and returns
+// the file bytes.
+
+export type WavFormat = 'pcm16' | 'pcm24' | 'float32';
+
+const FORMAT_INFO: Record<WavFormat, { bytes: number; tag: number }> = {
+  pcm16: { bytes: 2, tag: 1 },
+  pcm24: { bytes: 3, tag: 1 },
+  float32: { bytes: 4, tag: 3 }, // WAVE_FORMAT_IEEE_FLOAT
+};
+
+// `channels` are equal-length sample arrays in -1..1 (interleaved on write)
+export function encodeWav(channels: Float32Array[], sampleRate: number, format: WavFormat = 'pcm24'): Uint8Array {
+  const { bytes, tag } = FORMAT_INFO[format];
+  const frames = channels.length > 0 ? channels[0].length : 0;
+  const blockAlign = channels.length * bytes;
+  const dataSize = frames * blockAlign;
+
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, tag, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // Byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytes * 8, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      if (format === 'float32') {
+        view.setFloat32(offset, sample, true);
+      } else if (format === 'pcm16') {
+        view.setInt16(offset, Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7fff), true);
+      } else {
+        const value = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff);
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytes;
+    }
+  }
+  return new Uint8Array(buffer);
+}
@@ -1,16 +1,87 @@
 
-export enum GameGenre {
-  JAZZ = 'JAZZ',
-  ELECTRONIC = 'ELECTRONIC',
-  FUNK = 'FUNK',
+// Visual modes implemented by JazzCanvas. Genres pick one by id.
+export type VisualMode = 'liquid' | 'vortex' | 'neural';
+
+// How the canvas looks: a visual mode (each genre has its own by default),
+// how many particles it draws and how fast the colours cycle
+export interface VisualSettings {
+  mode: VisualMode;
+  density: number; // Multiplies the mode's particle count
+  hueSpeed: number; // Degrees of hue per frame
+}
+
+// Master reverb (shared by every genre, fed by the mixer's sends)
+export interface ReverbSettings {
+  decay: number; // Seconds
+  wet: number; // 0-1, level of the reverb return
+}
+
+export type HandSide = 'left' | 'right';
+
+// How hand notes are triggered: on every 16th while a hand is visible,
+// or only while thumb and index are pinched together.
+export type PlayMode = 'continuous' | 'pinch';
+
+// Where tempo and swing come from: the genre's fixed transport, or the
+// performer conducting (beat strokes set tempo, hand spread sets swing).
+export type TempoMode = 'fixed' | 'conduct';
+
+// What the right hand plays: scale notes on the 16th grid, or a theremin
+// voice gliding continuously with the hand (optionally pulled toward scale tones).
+export type LeadMode = 'notes' | 'theremin' | 'thereminSnap';
+
+// Which instrument a tracked hand plays: follow the hand's identity
+// (MediaPipe handedness + motion continuity) or the screen half it is in.
+export type HandAssignment = 'handedness' | 'screenSide';
+
+// Single MediaPipe hand landmark (normalized image coordinates)
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Handedness {
+  label: 'Left' | 'Right';
+  score: number;
+}
+
+// Subset of the MediaPipe Hands results object the app consumes
+export interface HandResults {
+  multiHandLandmarks?: Landmark[][];
+  multiHandedness?: Handedness[];
 }
 
 export interface HandCoordinates {
   x: number;
   y: number;
-  z?: number;
+  z?: number; // Camera sources only: fingertip depth relative to the wrist (negative = toward the camera)
+  size?: number; // Camera sources only: wrist to middle knuckle, in x/y units (grows as the hand nears)
+  wrist?: { x: number; y: number }; // Camera sources only; same space as x/y
+  landmarks?: Landmark[]; // Camera sources only: all 21, in image space (not mirrored)
+}
+
+// How hard a hand note is played, from the hand's motion and depth
+export interface NoteDynamics {
+  velocity: number; // 0-1
+  filterAmount: number; // 0-1, scales the synth's filter envelope
+  pan: number; // -1 (left) to 1 (right)
+  speed: number; // 0-1, recent fingertip speed (1 = a full strike)
+  depth: number; // 0 (far from the camera) to 1 (near)
 }
 
+// A hand's continuous controls, each 0-1, as read by parameter mappings
+export interface HandControls {
+  x: number;
+  y: number;
+  z: number; // Depth, 1 = near the camera
+  squeeze: number;
+  pinch: number; // 0 or 1
+  speed: number;
+}
+
+export type ControlSource = keyof HandControls;
+
 export interface HandState {
   left: HandCoordinates | null;
   right: HandCoordinates | null;
@@ -37,7 +108,28 @@ export interface Particle {
   age: number;
 }
 
+// A chord from the active progression. Intervals are semitones above `root`.
+export interface ChordInfo {
+  symbol: string; // e.g. "Dm7b5"
+  root: number; // Pitch class 0-11 (C = 0)
+  tones: number[];
+  scale: number[]; // Chord-scale the hands improvise on
+  preferFlats: boolean; // Spelling for generated note names
+}
+
 export type BeatType = 'SNARE' | 'KICK';
 export type NoteType = 'LEAD' | 'RHYTHM' | 'BASS';
 export type BeatCallback = (type: BeatType) => void;
 export type NoteCallback = (type: NoteType, x: number, y: number) => void;
+export type ChordCallback = (chord: ChordInfo) => void;
+
+// Arrangement sections the backing moves through (see services/songSections.ts)
+export type SongSection = 'intro' | 'verse' | 'solo' | 'breakdown' | 'build' | 'outro';
+export type SectionCallback = (section: SongSection) => void;
+
+// Discrete moves a performer can ask of the engine, from gestures or keys
+export type EngineAction =
+  | 'nextSection' | 'breakdown' | 'outro'
+  | 'fill' | 'nextGroove' | 'previousGroove'
+  | 'loopRecord' | 'loopUndo' | 'loopClear'
+  | 'muteDrums' | 'muteBass';
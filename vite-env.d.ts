@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Where the MediaPipe hands/camera_utils files are served from.
+  // Defaults to the copy bundled at `<base>/mediapipe`.
+  readonly VITE_MEDIAPIPE_ASSET_PATH?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,7 +1,49 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Serves the MediaPipe runtime (scripts, wasm, model data) from node_modules
+// in dev and copies it to `dist/mediapipe/` on build, so hand tracking works
+// offline. See services/mediaPipeLoader.ts.
+const MEDIAPIPE_PACKAGES = ['hands', 'camera_utils'];
+const MEDIAPIPE_SKIP = new Set(['package.json', 'README.md', 'index.d.ts']);
+const MIME_TYPES: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.wasm': 'application/wasm',
+};
+
+const mediapipeAssets = (): Plugin => {
+  const packageDir = (pkg: string) => path.resolve(__dirname, 'node_modules/@mediapipe', pkg);
+  const listFiles = (pkg: string) => fs.readdirSync(packageDir(pkg)).filter(file => !MEDIAPIPE_SKIP.has(file));
+
+  return {
+    name: 'mediapipe-assets',
+    configureServer(server) {
+      server.middlewares.use('/mediapipe', (req, res, next) => {
+        const [pkg, file] = (req.url ?? '').split('?')[0].replace(/^\//, '').split('/');
+        if (!MEDIAPIPE_PACKAGES.includes(pkg) || !file || MEDIAPIPE_SKIP.has(file)) return next();
+        const filePath = path.join(packageDir(pkg), file);
+        // Only regular files: `..` and subfolders would make the stream fail with EISDIR
+        if (!fs.statSync(filePath, { throwIfNoEntry: false })?.isFile()) return next();
+        res.setHeader('Content-Type', MIME_TYPES[path.extname(file)] ?? 'application/octet-stream');
+        fs.createReadStream(filePath).on('error', next).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const pkg of MEDIAPIPE_PACKAGES) {
+        for (const file of listFiles(pkg)) {
+          this.emitFile({
+            type: 'asset',
+            fileName: `mediapipe/${pkg}/${file}`,
+            source: fs.readFileSync(path.join(packageDir(pkg), file)),
+          });
+        }
+      }
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +51,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)